@@ -0,0 +1,225 @@
+import { createHash } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import { basename, dirname, join, relative, sep } from "path";
+import { JSDOM } from "jsdom";
+import client from "./client";
+import { fileExists } from "./utils";
+import { shouldAbort } from "./errors";
+import { toHref } from "./workshop/saveIndexPage";
+
+// Images, stylesheets and scripts of saved HTML pages, shared by every page
+export const ASSETS_FOLDER = "assets";
+
+const CONTENT_TYPE_EXTENSIONS: { [contentType: string]: string } = {
+  "text/css": ".css",
+  "image/gif": ".gif",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/svg+xml": ".svg",
+  "image/bmp": ".bmp",
+  "application/javascript": ".js",
+  "text/javascript": ".js",
+};
+
+export interface AssetStore {
+  folder: string;
+  // Where each URL was saved, or undefined if it couldn't be downloaded.
+  // Promises, so that pages saved side by side download an asset once.
+  saved: Map<string, Promise<string | undefined>>;
+}
+
+export const createAssetStore = (outputPath: string): AssetStore => ({
+  folder: join(outputPath, ASSETS_FOLDER),
+  saved: new Map(),
+});
+
+const CSS_URL_REGEX =
+  /url\(\s*(['"]?)([^'")]+)\1\s*\)|@import\s+(['"])([^'"]+)\3/g;
+
+/**
+ * Replaces every url(...) and @import in `css` with what `replace`
+ * returns for it (resolved against `baseURL`), or the full URL if it
+ * returns undefined.
+ */
+async function rewriteCSS(
+  css: string,
+  baseURL: string,
+  replace: (url: URL) => Promise<string | undefined>
+): Promise<string> {
+  const replacements = new Map<string, string>();
+  for (const match of css.matchAll(CSS_URL_REGEX)) {
+    const href = match[2] ?? match[4];
+    const url = parseURL(href, baseURL);
+    if (!url || !/^https?:$/.test(url.protocol) || replacements.has(href)) {
+      continue;
+    }
+    replacements.set(href, (await replace(url)) || url.href);
+  }
+
+  return css.replace(CSS_URL_REGEX, (match, q1, url1, q2, url2) => {
+    const href = url1 ?? url2;
+    const replacement = replacements.get(href);
+    if (replacement === undefined) {
+      return match;
+    }
+    return url1 !== undefined
+      ? `url("${replacement}")`
+      : `@import "${replacement}"`;
+  });
+}
+
+async function downloadAsset(
+  store: AssetStore,
+  url: string,
+  // Stylesheets being downloaded that led to this one, to stop at loops
+  // of @imports
+  importedBy: string[]
+): Promise<string | undefined> {
+  let data: Buffer;
+  let contentType: string;
+  try {
+    const res = await client({ url, responseType: "arraybuffer" });
+    data = Buffer.from(res.data);
+    contentType = String(res.headers["content-type"] || "");
+  } catch (e: any) {
+    if (shouldAbort(e)) {
+      throw e;
+    }
+    // the page still works online, so it's not worth failing it over
+    console.error(`Couldn't download ${url}: ${e.message || e}`);
+    return undefined;
+  }
+
+  const pathname = new URL(url).pathname;
+  const extension =
+    pathname
+      .slice(pathname.lastIndexOf("/") + 1)
+      .match(/\.[a-z0-9]{1,5}$/i)?.[0]
+      .toLowerCase() ||
+    CONTENT_TYPE_EXTENSIONS[contentType.split(";")[0].trim()] ||
+    "";
+
+  // Images in a stylesheet are saved too. They end up in the same
+  // folder, so the stylesheet refers to them by file name.
+  if (extension === ".css") {
+    const css = await rewriteCSS(data.toString("utf-8"), url, async (ref) => {
+      const path = importedBy.includes(ref.href)
+        ? undefined
+        : await saveAsset(store, ref.href, [...importedBy, url]);
+      return path && basename(path);
+    });
+    data = Buffer.from(css, "utf-8");
+  }
+
+  // Named after the content, so the same image at different URLs is
+  // only saved once
+  const hash = createHash("sha1").update(data).digest("hex").slice(0, 16);
+  const path = join(store.folder, hash + extension);
+  if (!(await fileExists(path))) {
+    await mkdir(store.folder, { recursive: true });
+    await writeFile(path, data);
+  }
+  return path;
+}
+
+/**
+ * Downloads `url` into the asset folder, unless it already has been.
+ * Returns the file's path, or undefined if it couldn't be downloaded.
+ */
+export function saveAsset(
+  store: AssetStore,
+  url: string,
+  importedBy: string[] = []
+): Promise<string | undefined> {
+  let saved = store.saved.get(url);
+  if (!saved) {
+    saved = downloadAsset(store, url, importedBy);
+    store.saved.set(url, saved);
+  }
+  return saved;
+}
+
+const parseURL = (href: string, base: string): URL | undefined => {
+  try {
+    return new URL(href, base);
+  } catch {
+    return undefined;
+  }
+};
+
+// Relative URL from the HTML file at `fromPath` to the file at `toPath`
+export const relativeHref = (fromPath: string, toPath: string): string =>
+  toHref(relative(dirname(fromPath), toPath).split(sep));
+
+/**
+ * Makes a saved HTML page work offline: images, stylesheets (and the
+ * images in them) and scripts are downloaded into the asset folder, and
+ * links for which `localPage` returns a path point to that file instead.
+ * `pageURL` is where the page came from, to resolve relative URLs, and
+ * `htmlPath` is where it's being saved.
+ */
+export async function localizeHTML(
+  html: string,
+  pageURL: string,
+  htmlPath: string,
+  store: AssetStore,
+  localPage: (url: URL) => string | undefined
+): Promise<string> {
+  const dom = new JSDOM(html, { url: pageURL });
+  const { document } = dom.window;
+
+  const assets: [Element, string][] = [];
+  document
+    .querySelectorAll("img[src], input[type=image][src], script[src]")
+    .forEach((el) => assets.push([el, "src"]));
+  document
+    .querySelectorAll("link[rel~=stylesheet][href]")
+    .forEach((el) => assets.push([el, "href"]));
+  // old pages set table and cell backgrounds with an attribute
+  document
+    .querySelectorAll("[background]")
+    .forEach((el) => assets.push([el, "background"]));
+
+  await Promise.all(
+    assets.map(async ([el, attribute]) => {
+      const url = parseURL(el.getAttribute(attribute)!, pageURL);
+      if (!url || !/^https?:$/.test(url.protocol)) {
+        return;
+      }
+      // falls back to the full URL, which at least works online
+      const path = await saveAsset(store, url.href);
+      el.setAttribute(
+        attribute,
+        path ? relativeHref(htmlPath, path) : url.href
+      );
+    })
+  );
+
+  // Inline styles can have images too
+  const localizeCSS = (css: string) =>
+    rewriteCSS(css, pageURL, async (url) => {
+      const path = await saveAsset(store, url.href);
+      return path && relativeHref(htmlPath, path);
+    });
+  for (const style of Array.from(document.querySelectorAll("style"))) {
+    style.textContent = await localizeCSS(style.textContent || "");
+  }
+  for (const el of Array.from(document.querySelectorAll("[style]"))) {
+    el.setAttribute("style", await localizeCSS(el.getAttribute("style")!));
+  }
+
+  document.querySelectorAll("a[href]").forEach((el) => {
+    const href = el.getAttribute("href")!;
+    const url = parseURL(href, pageURL);
+    if (!url || href.startsWith("#") || !/^https?:$/.test(url.protocol)) {
+      return;
+    }
+    const path = localPage(url);
+    el.setAttribute(
+      "href",
+      path ? relativeHref(htmlPath, path) + url.hash : url.href
+    );
+  });
+
+  return dom.serialize();
+}
@@ -1,6 +1,47 @@
-import axios from "axios";
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
 
 import { ENV_USE_PROXY, USER_AGENT } from "./constants";
+import { sleep } from "./utils";
+import {
+  createSemaphore,
+  createTokenBucket,
+  Semaphore,
+  TokenBucket,
+} from "./concurrency";
+import {
+  classifyError,
+  ErrorCategory,
+  explainError,
+  isAuthRedirect,
+  PTSError,
+} from "./errors";
+
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, doubled for each retry after that
+  baseDelayMs: number;
+  // Upper bound for any single delay, including Retry-After
+  maxDelayMs: number;
+  // Which kinds of errors are worth retrying
+  retryOn: ErrorCategory[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  retryOn: ["transient", "botBlocked"],
+};
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Per-request overrides for the retry policy, or false to never retry
+    retry?: Partial<RetryPolicy> | false;
+    // Internal: which attempt this is, starting at 1
+    attempt?: number;
+  }
+}
 
 const client = axios.create({
   headers: {
@@ -29,4 +70,123 @@ export const setCookies = (cookies: string) => {
   client.defaults.headers.common["Cookie"] = cookies;
 };
 
+export interface RequestLimits {
+  // Maximum number of axios requests in flight at once
+  maxConcurrentRequests: number;
+  // Requests per second shared by axios and the browser, 0 for no limit
+  requestsPerSecond: number;
+}
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+  maxConcurrentRequests: 1,
+  requestsPerSecond: 2,
+};
+
+let requestSlots: Semaphore = createSemaphore(
+  DEFAULT_REQUEST_LIMITS.maxConcurrentRequests
+);
+let rateLimiter: TokenBucket = createTokenBucket(
+  DEFAULT_REQUEST_LIMITS.requestsPerSecond
+);
+
+export const setRequestLimits = (limits: RequestLimits) => {
+  requestSlots = createSemaphore(limits.maxConcurrentRequests);
+  rateLimiter = createTokenBucket(limits.requestsPerSecond);
+};
+
+// Waits for the shared rate limiter. Call this before anything that hits
+// PTS outside of the axios client, like browser navigations, so that
+// everything together stays gentle on Ford's servers.
+export const waitForRateLimit = (): Promise<void> => rateLimiter.take();
+
+// Requests hold a concurrency slot from the request interceptor until the
+// response (or error) interceptor runs. Streamed responses release their
+// slot once headers arrive, which is good enough to stay polite.
+const slotReleases = new WeakMap<object, () => void>();
+
+client.interceptors.request.use(async (config) => {
+  slotReleases.set(config, await requestSlots.acquire());
+  await waitForRateLimit();
+  return config;
+});
+
+const releaseSlot = (config: object | undefined) => {
+  if (!config) return;
+  slotReleases.get(config)?.();
+  slotReleases.delete(config);
+};
+
+// Exponential backoff with full jitter
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+// Backoff, unless the server told us how long to wait
+function getRetryDelay(
+  error: AxiosError,
+  policy: RetryPolicy,
+  attempt: number
+): number {
+  const retryAfter = error.response?.headers?.["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds)
+      ? Date.parse(retryAfter) - Date.now()
+      : seconds * 1000;
+    if (ms >= 0) {
+      return Math.min(ms, policy.maxDelayMs);
+    }
+  }
+
+  return getBackoffDelay(policy, attempt);
+}
+
+client.interceptors.response.use(
+  (response) => {
+    releaseSlot(response.config);
+
+    // PTS doesn't error when our session is gone, it redirects to a login page
+    if (isAuthRedirect(response)) {
+      throw new PTSError(
+        "auth",
+        `Request to ${response.config.url} was redirected to a login page`
+      );
+    }
+
+    return response;
+  },
+  async (error) => {
+    const config: AxiosRequestConfig | undefined = error?.config;
+    releaseSlot(config);
+
+    if (!config || config.retry === false) {
+      throw explainError(error);
+    }
+
+    const policy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    const attempt = config.attempt ?? 1;
+    const category = classifyError(error);
+
+    if (!policy.retryOn.includes(category) || attempt >= policy.maxAttempts) {
+      throw explainError(error);
+    }
+
+    const delay = getRetryDelay(error, policy, attempt);
+    console.error(
+      `Request to ${config.url} failed (${
+        error.message
+      }), retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1} of ${
+        policy.maxAttempts
+      })...`
+    );
+    await sleep(delay);
+
+    return client.request({ ...config, attempt: attempt + 1 });
+  }
+);
+
 export default client;
@@ -0,0 +1,193 @@
+import type { Page } from "playwright";
+
+export interface Semaphore {
+  // Resolves with a release function once a slot is free
+  acquire(): Promise<() => void>;
+}
+
+// Hands out at most `concurrency` slots at once, queueing the rest in order.
+export function createSemaphore(concurrency: number): Semaphore {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return {
+    async acquire() {
+      if (active >= concurrency) {
+        await new Promise<void>((resolve) => queue.push(resolve));
+      }
+      active++;
+
+      let released = false;
+      return () => {
+        // releasing twice would free someone else's slot
+        if (released) return;
+        released = true;
+        active--;
+        queue.shift()?.();
+      };
+    },
+  };
+}
+
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+// Runs at most `concurrency` functions at once, queueing the rest in order.
+export function createLimiter(concurrency: number): Limiter {
+  const semaphore = createSemaphore(concurrency);
+
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    const release = await semaphore.acquire();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
+
+export interface TokenBucket {
+  // Resolves once a token is available, then consumes it
+  take(): Promise<void>;
+}
+
+// Token bucket rate limiter. Allows bursts of up to `capacity` requests,
+// then `ratePerSecond` requests per second after that.
+// A rate of 0 disables rate limiting entirely.
+export function createTokenBucket(
+  ratePerSecond: number,
+  capacity: number = Math.max(1, ratePerSecond)
+): TokenBucket {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Chain waiters so tokens are handed out in request order
+  let pending: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(
+      capacity,
+      tokens + ((now - lastRefill) / 1000) * ratePerSecond
+    );
+    lastRefill = now;
+  };
+
+  const takeOne = async () => {
+    refill();
+    while (tokens < 1) {
+      const waitMs = ((1 - tokens) / ratePerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, Math.ceil(waitMs)));
+      refill();
+    }
+    tokens--;
+  };
+
+  return {
+    take() {
+      if (ratePerSecond <= 0) {
+        return Promise.resolve();
+      }
+      pending = pending.then(takeOne);
+      return pending;
+    },
+  };
+}
+
+export interface PagePool {
+  // Borrows a browser page for the duration of fn
+  use<T>(fn: (page: Page) => Promise<T>): Promise<T>;
+  // Calls fn on each item, at most as many at once as there are pages.
+  // Waits for every started call before throwing the first error.
+  forEach<T>(
+    items: readonly T[],
+    fn: (item: T) => Promise<void>
+  ): Promise<void>;
+  // Stops the pool handing out pages or starting forEach items, which
+  // then throw `error`. The tasks already running carry on.
+  stop(error: unknown): void;
+  // Waits for the pages in use to be handed back, then closes them all
+  close(): Promise<void>;
+}
+
+// A pool of up to `size` browser pages, created lazily with `createPage`.
+// Pages are reused between tasks rather than opened and closed for each one.
+// Once a task fails, every download sharing the pool stops starting new
+// work, so a run that's going to abort doesn't queue up thousands of pages
+// first, and nothing is still using a page when the browser is closed.
+export function createPagePool(
+  size: number,
+  createPage: () => Promise<Page>
+): PagePool {
+  const limit = createLimiter(size);
+  const idle: Page[] = [];
+  const all: Page[] = [];
+  let stopped: { error: unknown } | undefined;
+  let inUse = 0;
+  let onIdle: (() => void) | undefined;
+
+  const pool: PagePool = {
+    use<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+      return limit(async () => {
+        if (stopped) {
+          throw stopped.error;
+        }
+
+        inUse++;
+        let page: Page | undefined;
+        try {
+          page = idle.pop();
+          if (!page) {
+            page = await createPage();
+            all.push(page);
+          }
+          return await fn(page);
+        } finally {
+          // don't hand out a page that crashed or was closed mid-task
+          if (page && !page.isClosed()) {
+            idle.push(page);
+          }
+          inUse--;
+          if (inUse === 0) {
+            onIdle?.();
+          }
+        }
+      });
+    },
+    async forEach<T>(
+      items: readonly T[],
+      fn: (item: T) => Promise<void>
+    ): Promise<void> {
+      let next = 0;
+      // Workers take the next item until there are none left, so there's
+      // never more than `size` calls (or promises) per forEach
+      const worker = async () => {
+        while (!stopped && next < items.length) {
+          try {
+            await fn(items[next++]);
+          } catch (e) {
+            pool.stop(e);
+          }
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(size, items.length) }, worker)
+      );
+      if (stopped) {
+        throw stopped.error;
+      }
+    },
+    stop(error: unknown) {
+      // the first error is the one worth reporting, the rest follow from it
+      stopped ??= { error };
+    },
+    async close() {
+      pool.stop(new Error("The browser pages have been closed."));
+      if (inUse > 0) {
+        await new Promise<void>((resolve) => (onIdle = resolve));
+      }
+      await Promise.all(all.map((page) => page.close()));
+      idle.length = 0;
+      all.length = 0;
+    },
+  };
+  return pool;
+}
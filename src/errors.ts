@@ -0,0 +1,143 @@
+import { AxiosError, AxiosResponse } from "axios";
+
+// Broad reasons a request to PTS can fail. Each one needs a different fix,
+// so they're retried (or not) differently and get their own error message.
+export type ErrorCategory =
+  // PTS rejected the request, usually because of a wrong field in params.json
+  | "badParams"
+  // Cookies are invalid or the subscription has expired
+  | "auth"
+  // Akamai decided we're a bot
+  | "botBlocked"
+  // Network blips and overloaded servers, worth retrying
+  | "transient"
+  // PTS answered, but with an error page or an empty one instead of the document
+  | "invalidContent"
+  | "unknown";
+
+const ERROR_HINTS: { [category in ErrorCategory]: string } = {
+  badParams:
+    "PTS rejected the request. This usually means one of the fields in your params.json is incorrect. " +
+    "See ERR_BAD_RESPONSE in the README's Common Issues section.",
+  auth:
+    "PTS sent us to a login or subscription page. Your cookies may have expired, or your subscription may have ended. " +
+    "Re-collect your cookies (see the README) and run again: already-downloaded files will be skipped.",
+  botBlocked:
+    "PTS (Akamai) is blocking our requests. Re-collect your cookies, lower --pages, --requests and --rateLimit, " +
+    "or try --browserMode remote. See ERR_HTTP2_PROTOCOL_ERROR in the README's Common Issues section.",
+  transient:
+    "A network error kept happening after several retries. Check your internet connection and run again: " +
+    "already-downloaded files will be skipped.",
+  invalidContent:
+    "PTS kept sending an error page (or an empty one) instead of the document. It's been recorded as failed; " +
+    "run again later to retry it: already-downloaded files will be skipped.",
+  unknown: "An unexpected error occurred.",
+};
+
+export class PTSError extends Error {
+  category: ErrorCategory;
+  originalError: unknown;
+
+  constructor(
+    category: ErrorCategory,
+    message: string,
+    originalError?: unknown
+  ) {
+    super(`${message}\n${ERROR_HINTS[category]}`);
+    this.name = "PTSError";
+    this.category = category;
+    this.originalError = originalError;
+  }
+}
+
+// Final URLs (after redirects) that mean we've been logged out
+const AUTH_URL_REGEX = /subscriptionExpired|login|signin|logon/i;
+
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENETUNREACH",
+  "ERR_NETWORK",
+];
+
+const TRANSIENT_STATUS_CODES = [408, 429, 502, 503, 504];
+
+// The URL a response actually came from, after following redirects
+export function getFinalURL(response: AxiosResponse): string | undefined {
+  return response.request?.res?.responseUrl;
+}
+
+export const isAuthURL = (url: string): boolean =>
+  AUTH_URL_REGEX.test(new URL(url).pathname);
+
+export function isAuthRedirect(response: AxiosResponse): boolean {
+  const finalURL = getFinalURL(response);
+  return !!finalURL && isAuthURL(finalURL);
+}
+
+// HTTP status of a failed request, even once it's been wrapped in a PTSError
+export function getResponseStatus(error: unknown): number | undefined {
+  const original =
+    error instanceof PTSError ? error.originalError : (error as AxiosError);
+  return (original as AxiosError | undefined)?.response?.status;
+}
+
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof PTSError) {
+    return error.category;
+  }
+
+  const axiosError = error as AxiosError;
+  const status = axiosError?.response?.status;
+  const message = `${(error as Error)?.message ?? error}`;
+
+  // Playwright reports these in the error message rather than as a code
+  if (message.includes("ERR_HTTP2_PROTOCOL_ERROR")) {
+    return "botBlocked";
+  }
+
+  if (status) {
+    if (status === 401) return "auth";
+    if (status === 403) return "botBlocked";
+    if (TRANSIENT_STATUS_CODES.includes(status)) return "transient";
+    if (axiosError.response && isAuthRedirect(axiosError.response)) {
+      return "auth";
+    }
+    // PTS answers bad params with a 500 (ERR_BAD_RESPONSE in axios)
+    if (status >= 500) return "badParams";
+    return "unknown";
+  }
+
+  if (axiosError?.code && TRANSIENT_ERROR_CODES.includes(axiosError.code)) {
+    return "transient";
+  }
+  if (/net::ERR_(CONNECTION|TIMED_OUT|NETWORK|INTERNET)/.test(message)) {
+    return "transient";
+  }
+
+  return "unknown";
+}
+
+// Errors that will keep happening for every document until the user
+// fixes something, so there's no point continuing with --ignoreSaveErrors.
+export function shouldAbort(error: unknown): boolean {
+  const category = classifyError(error);
+  return category === "auth" || category === "botBlocked";
+}
+
+// Wraps an error in a PTSError with a message pointing to the fix.
+export function explainError(error: unknown): PTSError {
+  if (error instanceof PTSError) {
+    return error;
+  }
+
+  const category = classifyError(error);
+  const message = `${(error as Error)?.message ?? error}`;
+  const url = (error as AxiosError)?.config?.url;
+
+  return new PTSError(category, url ? `${message} (${url})` : message, error);
+}
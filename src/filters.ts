@@ -0,0 +1,178 @@
+import type { WiringTableOfContentsEntry } from "./wiring/fetchTableOfContents";
+import type { Pre2003Document } from "./pre-2003/fetchAlphabeticalIndex";
+
+// What a filter rule looks at
+type FilterField = "path" | "docID" | "wiringType" | "wiringCell";
+
+export interface FilterRule {
+  field: FilterField;
+  test: (value: string) => boolean;
+  // The rule as the user wrote it, for log messages
+  source: string;
+}
+
+export interface DownloadFilters {
+  include: FilterRule[];
+  exclude: FilterRule[];
+}
+
+// The values of each field for one entry. Fields an entry doesn't
+// have (like wiringType for a workshop page) are left out.
+type FilterableEntry = { [field in FilterField]?: string };
+
+const LIST_PREFIXES: { [prefix: string]: FilterField } = {
+  "docid:": "docID",
+  "type:": "wiringType",
+  "cell:": "wiringCell",
+};
+
+// Glob that matches whole path segments, starting at any segment:
+// "307-01*" matches "1: Powertrain/307-01 Automatic Transmission"
+// and everything inside it. * stays within a segment, ** doesn't.
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split(/(\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`(^|/)${pattern}($|/)`, "i");
+}
+
+/**
+ * Parses a filter rule from the command line:
+ * - `docid:G1234,G5678` matches workshop docIDs (or pre-2003 page URLs)
+ * - `type:Connectors,LocIndex` matches wiring table of contents entry types
+ * - `cell:12,13` matches wiring cell numbers
+ * - `/regex/flags` matches the workshop table of contents path, with names
+ *   joined by /
+ * - anything else is a glob on the workshop table of contents path
+ */
+export function parseFilterRule(source: string): FilterRule {
+  const lower = source.toLowerCase();
+  for (const [prefix, field] of Object.entries(LIST_PREFIXES)) {
+    if (lower.startsWith(prefix)) {
+      const values = source
+        .slice(prefix.length)
+        .split(",")
+        .map((v) => v.trim().toLowerCase())
+        .filter(Boolean);
+      return {
+        field,
+        test: (value) => values.includes(value.toLowerCase()),
+        source,
+      };
+    }
+  }
+
+  // g and y make test() carry on from the last match, so whether an
+  // entry matches would depend on the entries tested before it
+  const regexMatch = source.match(/^\/(.+)\/([a-z]*)$/);
+  const regex = regexMatch
+    ? new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ""))
+    : globToRegExp(source);
+
+  return { field: "path", test: (value) => regex.test(value), source };
+}
+
+export const parseFilters = (
+  include: string[],
+  exclude: string[]
+): DownloadFilters => ({
+  include: include.map(parseFilterRule),
+  exclude: exclude.map(parseFilterRule),
+});
+
+export const hasFilters = (filters: DownloadFilters): boolean =>
+  filters.include.length > 0 || filters.exclude.length > 0;
+
+const ruleMatches = (rule: FilterRule, entry: FilterableEntry): boolean => {
+  const value = entry[rule.field];
+  return value !== undefined && rule.test(value);
+};
+
+// An entry is kept if it matches at least one include rule that applies to
+// it (if there are any), and no exclude rules. A rule applies to an entry
+// if the entry has the field it looks at, so "--include cell:12" only
+// narrows down wiring, not the workshop manual.
+function isIncluded(filters: DownloadFilters, entry: FilterableEntry): boolean {
+  const applicable = filters.include.filter(
+    (rule) => entry[rule.field] !== undefined
+  );
+  if (applicable.length && !applicable.some((r) => ruleMatches(r, entry))) {
+    return false;
+  }
+
+  return !filters.exclude.some((rule) => ruleMatches(rule, entry));
+}
+
+/**
+ * Returns a copy of the workshop table of contents with only the documents
+ * the filters allow. Folders left empty are removed.
+ */
+export function filterWorkshopTableOfContents(
+  toc: any,
+  filters: DownloadFilters
+): { toc: any; filtered: number } {
+  let filtered = 0;
+
+  const walk = (branch: any, path: string[]): any => {
+    const kept: { [name: string]: any } = {};
+
+    for (const [name, docID] of Object.entries(branch)) {
+      const entryPath = [...path, name];
+
+      if (typeof docID === "string" && docID.length > 0) {
+        if (isIncluded(filters, { path: entryPath.join("/"), docID })) {
+          kept[name] = docID;
+        } else {
+          filtered++;
+        }
+        continue;
+      }
+
+      const keptBranch = walk(docID, entryPath);
+      if (Object.keys(keptBranch).length) {
+        kept[name] = keptBranch;
+      }
+    }
+
+    return kept;
+  };
+
+  return { toc: walk(toc, []), filtered };
+}
+
+export function filterWiringTableOfContents(
+  toc: WiringTableOfContentsEntry[],
+  filters: DownloadFilters
+): { toc: WiringTableOfContentsEntry[]; filtered: number } {
+  // Path patterns are for the workshop manual, so "--include 307-01*"
+  // doesn't leave out all of the wiring
+  const kept = toc.filter((doc) =>
+    isIncluded(filters, {
+      wiringType: doc.Type,
+      wiringCell: doc.Number,
+    })
+  );
+
+  return { toc: kept, filtered: toc.length - kept.length };
+}
+
+export function filterPre2003DocumentList<T extends Pre2003Document>(
+  documentList: T[],
+  filters: DownloadFilters
+): { documentList: T[]; filtered: number } {
+  const kept = documentList.filter((doc) =>
+    isIncluded(filters, {
+      path: doc.tocPath ? doc.tocPath.join("/") : doc.title,
+      docID: doc.href,
+    })
+  );
+
+  return { documentList: kept, filtered: documentList.length - kept.length };
+}
@@ -1,9 +1,12 @@
 import { writeFile, readFile, mkdir, access } from "fs/promises";
 import fetchTreeAndCover, {
-  FetchTreeAndCoverParams,
+  getPublicationOutputPath,
+  getPublicationPageParams,
+  getPublications,
+  getTreeAndCoverParams,
 } from "./workshop/fetchTreeAndCover";
 import fetchTableOfContents, {
-  WiringFetchParams,
+  getWiringFetchParams,
 } from "./wiring/fetchTableOfContents";
 import saveEntireWiring from "./wiring/saveEntireWiring";
 import transformCookieString from "./transformCookieString";
@@ -14,13 +17,73 @@ import {
   LaunchOptions,
   Browser,
 } from "playwright";
-import { join } from "path";
+import { join, relative, sep } from "path";
 import saveEntireManual, { SaveOptions } from "./workshop/saveEntireManual";
+import {
+  EXTERNAL_REFERENCES_FILENAME,
+  collectDocumentPaths,
+  createCrossReferences,
+  saveExternalReferences,
+} from "./workshop/crossReferences";
+import saveIndexPage, { toHref } from "./workshop/saveIndexPage";
 import readConfig, { Config } from "./readConfig";
-import processCLIArgs, { CLIArgs } from "./processCLIArgs";
-import fetchPre2003AlphabeticalIndex from "./pre-2003/fetchAlphabeticalIndex";
-import saveEntirePre2003AlphabeticalIndex from "./pre-2003/saveEntireAlphabeticalIndex";
-import client, { setCookies } from "./client";
+import processCLIArgs, {
+  CLIArgs,
+  processSearchCLIArgs,
+  processWiringCLIArgs,
+} from "./processCLIArgs";
+import fetchPre2003AlphabeticalIndex, {
+  ALPHABETICAL_INDEX_FILENAME,
+} from "./pre-2003/fetchAlphabeticalIndex";
+import saveEntirePre2003AlphabeticalIndex, {
+  Pre2003LocalLinks,
+} from "./pre-2003/saveEntireAlphabeticalIndex";
+import { AssetStore, createAssetStore } from "./assets";
+import { sanitizeName } from "./utils";
+import fetchPre2003TableOfContents, {
+  PRE2003_TOC_FILENAME,
+  flattenPre2003TableOfContents,
+  pre2003HrefKey,
+  Pre2003TableOfContentsDocument,
+} from "./pre-2003/fetchTableOfContents";
+import saveEntirePre2003TableOfContents, {
+  PRE2003_PATHS_GROUP,
+  planPre2003Paths,
+} from "./pre-2003/saveEntireTableOfContents";
+import client, { setCookies, setRequestLimits } from "./client";
+import { createPagePool, PagePool } from "./concurrency";
+import { explainError } from "./errors";
+import planDownload from "./plan";
+import {
+  DownloadFilters,
+  filterPre2003DocumentList,
+  filterWorkshopTableOfContents,
+} from "./filters";
+import buildSearchIndex from "./search/buildSearchIndex";
+import buildConnectorDatabase, {
+  CONNECTOR_DATABASE_FILENAME,
+} from "./wiring/buildConnectorDatabase";
+import buildWiringViewer, { VIEWER_FILENAME } from "./wiring/buildWiringViewer";
+import searchCommand from "./search/searchCommand";
+import buildWiringIndex, {
+  WIRING_INDEX_FILENAME,
+} from "./wiring/buildWiringIndex";
+import exportWiringPNGs from "./wiring/exportWiringPNGs";
+import combineWiringPDFs from "./wiring/combineWiringPDFs";
+import wiringCommand from "./wiring/wiringCommand";
+import fetchLegacyWiringIndex from "./pre-2003/fetchLegacyWiringIndex";
+import saveLegacyWiring from "./pre-2003/saveLegacyWiring";
+import { Manifest, getFailedEntries, loadManifest } from "./manifest";
+import {
+  OutputPaths,
+  assignPaths,
+  getRecordedFiles,
+  loadOutputPaths,
+} from "./outputPaths";
+import {
+  planWorkshopPaths,
+  workshopPathsGroup,
+} from "./workshop/documentPaths";
 import {
   USER_AGENT,
   SEC_CH_UA,
@@ -79,12 +142,27 @@ async function run({
   doCookieTest,
   saveHTML,
   ignoreSaveErrors,
+  caseInsensitivePaths,
+  wrapWiringGIFs,
+  combineWiringPDFs: doCombineWiringPDFs,
+  wiringBookPDF,
+  paperSize,
+  wiringPNGDPI,
   browserMode,
   remoteDebuggingUrl,
+  pageConcurrency,
+  requestConcurrency,
+  requestsPerSecond,
+  filters,
+  planOnly,
 }: CLIArgs) {
   const config = await readConfig(configPath, doParamsValidation);
   const saveOptions: SaveOptions = { saveHTML, ignoreSaveErrors };
   const isRemoteBrowser = browserMode === "remote";
+  setRequestLimits({
+    maxConcurrentRequests: requestConcurrency,
+    requestsPerSecond,
+  });
   let rawCookieString = "";
   let transformedCookies: Parameters<BrowserContext["addCookies"]>[0] = [];
   let processedCookieString = "";
@@ -115,6 +193,14 @@ async function run({
     }
   }
 
+  // Tracks what's already been downloaded so interrupted runs can resume
+  const manifest = await loadManifest(outputPath);
+  // Where each document is saved, with colliding names made unique. Groups
+  // a previous run recorded are kept.
+  const outputPaths = await loadOutputPaths(outputPath, caseInsensitivePaths);
+  // Images and stylesheets of --saveHTML pages, shared by every page
+  const assets = createAssetStore(outputPath);
+
   const cacheDir = join(process.cwd(), ".cache");
   try {
     await mkdir(cacheDir, { recursive: true });
@@ -358,142 +444,379 @@ async function run({
     await cookieTestingPage.close();
   }
 
-  if (doWorkshopDownload) {
-    if (parseInt(config.workshop.modelYear) >= 2003) {
-      const browserPage = await context.newPage();
-      await preparePage(browserPage);
-      await browserPage.route("FordEcat.jpg", (route) => route.abort());
+  const closeBrowser = async () => {
+    if (isRemoteBrowser) {
+      console.log("Leaving remote Chrome session running.");
+    } else {
+      console.log("Closing browser");
+      await context.storageState({ path: storageStatePath });
+      await context.close();
+      await browser.close();
+    }
+  };
 
-      try {
-        await modernWorkshop(config, outputPath, browserPage, saveOptions);
-      } finally {
-        await browserPage.close();
-      }
+  const isPre2003 = parseInt(config.workshop.modelYear) < 2003;
+  if (
+    doWorkshopDownload &&
+    isPre2003 &&
+    config.pre_2003.alphabeticalIndexURL ===
+      "https://www.fordservicecontent.com/pubs/content/....."
+  ) {
+    console.error(
+      "Please set the URL for the pre-2003 alphabetical index in the config file."
+    );
+    process.exit(1);
+  }
+
+  if (planOnly) {
+    await planDownload(
+      config,
+      {
+        doWorkshopDownload,
+        doWiringDownload,
+        pageConcurrency,
+        requestsPerSecond,
+        filters,
+      },
+      manifest,
+      rawCookieString
+    );
+    await closeBrowser();
+    return;
+  }
+
+  await addCookiesToContext();
+
+  // All downloads share these pages, and the client's rate limiter.
+  const pages = createPagePool(pageConcurrency, async () => {
+    const page = await context.newPage();
+    await preparePage(page);
+    await page.route("FordEcat.jpg", (route) => route.abort());
+    return page;
+  });
+
+  const downloadWorkshop = async () => {
+    if (!doWorkshopDownload) {
+      console.log("Skipping workshop manual download.");
+      return;
+    }
+
+    if (!isPre2003) {
+      await modernWorkshop(
+        config,
+        outputPath,
+        pages,
+        saveOptions,
+        manifest,
+        outputPaths,
+        assets,
+        filters
+      );
     } else {
       console.log(
         "Downloading pre-2003 workshop manual, please see README for details..."
       );
 
-      if (
-        config.pre_2003.alphabeticalIndexURL ===
-        "https://www.fordservicecontent.com/pubs/content/....."
-      ) {
-        console.error(
-          "Please set the URL for the pre-2003 alphabetical index in the config file."
-        );
-        process.exit(1);
-      }
+      await pre2003Workshop(
+        config,
+        outputPath,
+        rawCookieString,
+        pages,
+        saveOptions,
+        manifest,
+        outputPaths,
+        assets,
+        filters
+      );
+    }
 
-      await addCookiesToContext();
-      const browserPage = await context.newPage();
-      await preparePage(browserPage);
+    console.log("Saved workshop manual!");
+  };
 
-      try {
-        await pre2003Workshop(
-          config,
-          outputPath,
-          rawCookieString,
-          browserPage,
-          saveOptions
-        );
-      } finally {
-        await browserPage.close();
-      }
+  const downloadWiring = async () => {
+    if (!doWiringDownload) {
+      console.log("Skipping wiring manual download.");
+      return;
     }
 
-    console.log("Saved workshop manual!");
-  } else {
-    console.log("Skipping workshop manual download.");
-  }
+    if (isPre2003 && config.pre_2003.wiringIndexURL) {
+      console.log("Saving pre-2003 GIF wiring diagrams...");
+      const diagrams = await fetchLegacyWiringIndex(
+        config.pre_2003.wiringIndexURL,
+        rawCookieString
+      );
+      await saveLegacyWiring(
+        outputPath,
+        diagrams,
+        pages,
+        { ...saveOptions, wrapInPDF: wrapWiringGIFs },
+        manifest,
+        outputPaths,
+        filters
+      );
+      console.log("Saved wiring diagrams!");
+      return;
+    }
 
-  if (doWiringDownload) {
     console.log("Saving wiring manual...");
 
-    await addCookiesToContext();
-    const wiringPage = await context.newPage();
-    await preparePage(wiringPage);
-
-    const wiringParams: WiringFetchParams = {
-      ...config.wiring,
-      book: config.workshop.WiringBookCode,
-      contentlanguage: config.workshop.contentlanguage,
-      contentmarket: config.workshop.contentmarket,
-      languageCode: config.workshop.languageOdysseyCode,
-    };
+    const wiringParams = getWiringFetchParams(config);
 
     console.log("Fetching wiring table of contents...");
 
     const wiringToC = await fetchTableOfContents(wiringParams);
 
-    try {
-      await saveEntireWiring(
-        outputPath,
-        config.workshop,
-        wiringParams,
-        wiringToC,
-        wiringPage
+    await saveEntireWiring(
+      outputPath,
+      config.workshop,
+      wiringParams,
+      wiringToC,
+      pages,
+      saveOptions,
+      manifest,
+      outputPaths,
+      filters,
+      paperSize
+    );
+
+    if (wiringPNGDPI) {
+      const exported = await exportWiringPNGs(outputPath, wiringPNGDPI, pages);
+      console.log(`Saved PNGs of ${exported} wiring pages.`);
+    }
+
+    if (doCombineWiringPDFs || wiringBookPDF) {
+      await combineWiringPDFs(outputPath, pages, {
+        sections: doCombineWiringPDFs,
+        book: wiringBookPDF,
+        paperSize,
+      });
+    }
+
+    console.log("Saved wiring manual!");
+  };
+
+  // The workshop and wiring manuals download side by side. When one fails
+  // the other stops starting new pages, and both finish what they were
+  // doing before the pages are closed.
+  const results = await Promise.allSettled(
+    [downloadWorkshop, downloadWiring].map((download) =>
+      download().catch((e) => {
+        pages.stop(e);
+        throw e;
+      })
+    )
+  );
+  await pages.close();
+  for (const result of results) {
+    if (result.status === "rejected") {
+      throw result.reason;
+    }
+  }
+
+  console.log("Building search index...");
+  await buildSearchIndex(outputPath);
+
+  if (doWiringDownload) {
+    console.log("Building connector database...");
+    const items = await buildConnectorDatabase(outputPath);
+    if (items !== undefined) {
+      console.log(
+        `Saved ${items} connectors, splices, grounds and harnesses to Wiring/${CONNECTOR_DATABASE_FILENAME}.`
+      );
+    }
+
+    console.log("Building wiring index...");
+    const wiringIndex = await buildWiringIndex(outputPath);
+    if (wiringIndex) {
+      console.log(
+        `Indexed ${
+          Object.keys(wiringIndex.circuits).length
+        } circuits in Wiring/${WIRING_INDEX_FILENAME}.`
+      );
+    }
+
+    console.log("Building wiring viewer...");
+    const viewerPages = await buildWiringViewer(outputPath);
+    if (viewerPages !== undefined) {
+      console.log(
+        `Saved a viewer for ${viewerPages} wiring pages to Wiring/${VIEWER_FILENAME}.`
       );
-    } finally {
-      await wiringPage.close();
     }
-  } else {
-    console.log("Skipping wiring manual download.");
   }
 
-  if (isRemoteBrowser) {
-    console.log("Manual downloaded, leaving remote Chrome session running.");
-  } else {
-    console.log("Manual downloaded, closing browser");
-    await context.storageState({ path: storageStatePath });
-    await context.close();
-    await browser.close();
+  await manifest.pendingWrite;
+  if (manifest.skipped) {
+    console.log(
+      `Skipped ${manifest.skipped} documents that were downloaded by a previous run.`
+    );
   }
+  const failed = getFailedEntries(manifest);
+  if (failed.length) {
+    console.error(
+      `${failed.length} documents failed to download. Run again to retry them:`
+    );
+    for (const [key, entry] of failed) {
+      console.error(`- ${key}: ${entry.error}`);
+    }
+  }
+
+  console.log("Manual downloaded!");
+  await closeBrowser();
 }
 
 async function modernWorkshop(
   config: Config,
   outputPath: string,
-  browserPage: Page,
-  saveOptions: SaveOptions
+  pages: PagePool,
+  saveOptions: SaveOptions,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  assets: AssetStore,
+  filters: DownloadFilters
 ) {
-  console.log("Downloading and processing table of contents...");
-  const tocFetchParams: FetchTreeAndCoverParams = {
-    ...config.workshop,
-    CategoryDescription: "GSIXML",
-    category: "32",
-    environment: config.wiring.environment,
-  };
-  const { tableOfContents, pageHTML } = await fetchTreeAndCover(tocFetchParams);
+  for (const publication of getPublications(config)) {
+    const publicationPath = getPublicationOutputPath(
+      outputPath,
+      config,
+      publication
+    );
+    const fetchPageParams = getPublicationPageParams(config, publication);
+    await mkdir(publicationPath, { recursive: true });
 
-  await writeFile(
-    join(outputPath, "toc.json"),
-    JSON.stringify(tableOfContents, null, 2)
-  );
-  const coverPath = join(outputPath, "cover");
-  await writeFile(coverPath + ".html", pageHTML);
+    console.log(
+      `Downloading and processing table of contents for ${publication.name}...`
+    );
+    const { tableOfContents, pageHTML } = await fetchTreeAndCover(
+      getTreeAndCoverParams(config, publication),
+      publication
+    );
 
-  console.log("Saving manual files...");
-  await saveEntireManual(
-    outputPath,
-    tableOfContents,
-    config.workshop,
-    browserPage,
-    saveOptions
-  );
+    await writeFile(
+      join(publicationPath, "toc.json"),
+      JSON.stringify(tableOfContents, null, 2)
+    );
+    const coverPath = join(publicationPath, "cover");
+    await writeFile(coverPath + ".html", pageHTML);
+
+    // Planned from the whole table of contents, so that names don't change
+    // with --include/--exclude
+    const pathsGroup = workshopPathsGroup(
+      relative(outputPath, publicationPath)
+    );
+    const documentPaths = await assignPaths(
+      outputPaths,
+      pathsGroup,
+      planWorkshopPaths(tableOfContents, publicationPath)
+    );
+    const writeIndex = () =>
+      saveIndexPage(
+        publicationPath,
+        tableOfContents,
+        fetchPageParams.bookTitle,
+        saveOptions,
+        documentPaths,
+        getRecordedFiles(outputPath, outputPaths, pathsGroup)
+      );
+    await writeIndex();
+
+    const { toc: filteredToc, filtered } = filterWorkshopTableOfContents(
+      tableOfContents,
+      filters
+    );
+    if (filtered) {
+      console.log(
+        `Skipping ${filtered} ${publication.name} documents because of --include/--exclude.`
+      );
+    }
+
+    // Links go to every page that's saved, not just the ones being saved now
+    const references = createCrossReferences();
+    await collectDocumentPaths(
+      tableOfContents,
+      filteredToc,
+      documentPaths,
+      references
+    );
+    console.log(`Saving ${publication.name} files...`);
+    await saveEntireManual(
+      publicationPath,
+      filteredToc,
+      fetchPageParams,
+      pages,
+      saveOptions,
+      manifest,
+      assets,
+      documentPaths,
+      references,
+      outputPaths,
+      pathsGroup
+    );
+    // again, now that relative-path files named after what was downloaded
+    // have names
+    await writeIndex();
+
+    const outside = await saveExternalReferences(publicationPath, references);
+    if (outside) {
+      console.log(
+        `${publication.name} pages refer to ${outside} documents that weren't downloaded, see ${EXTERNAL_REFERENCES_FILENAME}.`
+      );
+    }
+  }
 }
 
 async function pre2003Workshop(
   config: Config,
   outputPath: string,
   rawCookieString: string,
-  browserPage: Page,
-  saveOptions: SaveOptions
+  pages: PagePool,
+  saveOptions: SaveOptions,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  assets: AssetStore,
+  filters: DownloadFilters
 ) {
+  let tocDocuments: Pre2003TableOfContentsDocument[] = [];
+  let tocPaths = new Map<string, string>();
+  if (config.pre_2003.tocURL) {
+    console.log("Crawling table of contents...");
+    const toc = await fetchPre2003TableOfContents(
+      config.pre_2003.tocURL,
+      rawCookieString
+    );
+    await writeFile(
+      join(outputPath, PRE2003_TOC_FILENAME),
+      JSON.stringify(toc, null, 2)
+    );
+
+    tocDocuments = flattenPre2003TableOfContents(toc);
+    tocPaths = await assignPaths(
+      outputPaths,
+      PRE2003_PATHS_GROUP,
+      planPre2003Paths(tocDocuments, outputPath)
+    );
+  }
+  const inToc = new Map(
+    tocDocuments.map((doc) => [pre2003HrefKey(doc.href), doc])
+  );
+
+  // With a table of contents, the alphabetical index links to the pages
+  // in their section folders
   console.log("Downloading and processing alphabetical index...");
   const { documentList, pageHTML, modifiedHTML } =
     await fetchPre2003AlphabeticalIndex(
       config.pre_2003.alphabeticalIndexURL,
-      rawCookieString
+      rawCookieString,
+      (doc) => {
+        const tocDocument = inToc.get(pre2003HrefKey(doc.href));
+        if (!tocDocument) {
+          return doc.title + ".pdf";
+        }
+        const segments = relative(
+          outputPath,
+          tocPaths.get(tocDocument.href)!
+        ).split(sep);
+        return toHref(segments) + ".pdf";
+      }
     );
 
   // usable ToC
@@ -505,18 +828,80 @@ async function pre2003Workshop(
   );
   // JSON ToC
   await writeFile(
-    join(outputPath, "AA_alphabeticalIndex.json"),
+    join(outputPath, ALPHABETICAL_INDEX_FILENAME),
     JSON.stringify(documentList, null, 2)
   );
 
+  // Pages only in the alphabetical index are saved in the top folder
+  const indexOnly = documentList.filter(
+    (doc) => !inToc.has(pre2003HrefKey(doc.href))
+  );
+
+  // Saved HTML links to every page of the manual, even ones filtered out
+  // this time, so they work once a later run saves them
+  const links: Pre2003LocalLinks = {
+    pagePaths: new Map([
+      ...tocDocuments.map((doc): [string, string] => [
+        pre2003HrefKey(doc.href),
+        tocPaths.get(doc.href)!,
+      ]),
+      ...indexOnly.map((doc): [string, string] => [
+        pre2003HrefKey(doc.href),
+        join(outputPath, sanitizeName(doc.title)),
+      ]),
+    ]),
+    assets,
+  };
+  const { documentList: filteredToc, filtered: filteredFromToc } =
+    filterPre2003DocumentList(tocDocuments, filters);
+  const { documentList: filteredList, filtered } = filterPre2003DocumentList(
+    indexOnly,
+    filters
+  );
+  if (filtered + filteredFromToc) {
+    console.log(
+      `Skipping ${filtered + filteredFromToc} of ${
+        indexOnly.length + tocDocuments.length
+      } pages because of --include/--exclude.`
+    );
+  }
+
   console.log("Saving manual files...");
+  await saveEntirePre2003TableOfContents(
+    filteredToc,
+    tocPaths,
+    pages,
+    saveOptions,
+    manifest,
+    links
+  );
   await saveEntirePre2003AlphabeticalIndex(
     outputPath,
-    documentList,
-    browserPage,
-    saveOptions
+    filteredList,
+    pages,
+    saveOptions,
+    manifest,
+    links
   );
 }
 
-const args = processCLIArgs();
-run(args).then(() => process.exit(0));
+const commands: { [name: string]: (argv: string[]) => Promise<void> } = {
+  search: (argv) => searchCommand(processSearchCLIArgs(argv)),
+  wiring: (argv) => wiringCommand(processWiringCLIArgs(argv)),
+};
+
+const command =
+  process.argv[2] in commands
+    ? commands[process.argv[2]](process.argv.slice(3))
+    : run(processCLIArgs());
+
+command
+  .then(() => process.exit(0))
+  .catch((e) => {
+    const error = explainError(e);
+    console.error(`\n${error.message}`);
+    if (error.category === "unknown") {
+      console.error(e);
+    }
+    process.exit(1);
+  });
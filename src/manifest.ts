@@ -0,0 +1,172 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import { join, relative } from "path";
+import { fileExists } from "./utils";
+
+export type ManifestEntryStatus = "complete" | "failed";
+
+export interface ManifestEntry {
+  status: ManifestEntryStatus;
+  // Paths of the files written for this entry, relative to the output directory
+  files: string[];
+  // ISO 8601 timestamp of the last status change
+  timestamp: string;
+  // Only set when status is "failed"
+  error?: string;
+}
+
+export interface Manifest {
+  // Directory the manifest lives in. Entry file paths are relative to this.
+  outputPath: string;
+  entries: { [key: string]: ManifestEntry };
+  // Number of entries skipped during this run because they were already complete
+  skipped: number;
+  // Writes are chained so that concurrent updates never interleave
+  pendingWrite: Promise<void>;
+}
+
+export const MANIFEST_FILENAME = "manifest.json";
+
+// Manifest keys are namespaced by the kind of document they describe,
+// so that a workshop docID can never clash with a wiring cell number.
+export const manifestKey = (
+  kind:
+    | "workshop"
+    | "wiring"
+    | "connector"
+    | "locIndex"
+    | "pre2003"
+    | "legacyWiring",
+  ...parts: (string | number)[]
+): string => [kind, ...parts].join(":");
+
+export async function loadManifest(outputPath: string): Promise<Manifest> {
+  const manifest: Manifest = {
+    outputPath,
+    entries: {},
+    skipped: 0,
+    pendingWrite: Promise.resolve(),
+  };
+
+  const path = join(outputPath, MANIFEST_FILENAME);
+  if (!(await fileExists(path))) {
+    return manifest;
+  }
+
+  try {
+    const content = JSON.parse(await readFile(path, { encoding: "utf-8" }));
+    manifest.entries = content.entries || {};
+    console.log(
+      `Loaded progress manifest with ${
+        Object.keys(manifest.entries).length
+      } entries, resuming previous download.`
+    );
+  } catch (e) {
+    // A corrupt manifest shouldn't stop the download: worst case, we re-download.
+    console.error(`Couldn't read ${path}, starting from scratch: ${e}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Returns true if the entry was previously completed and every file it
+ * produced is still on disk. If `expectedFiles` is given, those files
+ * must also have been recorded for the entry.
+ */
+export async function isComplete(
+  manifest: Manifest,
+  key: string,
+  expectedFiles?: string[]
+): Promise<boolean> {
+  const entry = manifest.entries[key];
+  if (!entry || entry.status !== "complete") {
+    return false;
+  }
+
+  const files = expectedFiles
+    ? expectedFiles.map((f) => toManifestPath(manifest, f))
+    : entry.files;
+
+  for (const file of files) {
+    if (!entry.files.includes(file)) {
+      return false;
+    }
+    if (!(await fileExists(join(manifest.outputPath, file)))) {
+      return false;
+    }
+  }
+
+  manifest.skipped++;
+  return true;
+}
+
+export function markComplete(
+  manifest: Manifest,
+  key: string,
+  files: string[]
+): Promise<void> {
+  const previous = manifest.entries[key];
+  const manifestFiles = files.map((f) => toManifestPath(manifest, f));
+
+  // The same docID can show up in more than one place in a table of contents,
+  // so keep files that earlier saves of this entry recorded.
+  const merged =
+    previous && previous.status === "complete"
+      ? Array.from(new Set([...previous.files, ...manifestFiles]))
+      : manifestFiles;
+
+  manifest.entries[key] = {
+    status: "complete",
+    files: merged,
+    timestamp: new Date().toISOString(),
+  };
+  return writeManifest(manifest);
+}
+
+export function markFailed(
+  manifest: Manifest,
+  key: string,
+  error: unknown
+): Promise<void> {
+  manifest.entries[key] = {
+    status: "failed",
+    files: [],
+    timestamp: new Date().toISOString(),
+    error: `${error}`,
+  };
+  return writeManifest(manifest);
+}
+
+export function getFailedEntries(
+  manifest: Manifest
+): [string, ManifestEntry][] {
+  return Object.entries(manifest.entries).filter(
+    ([, entry]) => entry.status === "failed"
+  );
+}
+
+// Callers pass paths built from the output path, so store them relative
+// to it. That way the manifest survives the output folder being moved.
+function toManifestPath(manifest: Manifest, path: string): string {
+  return relative(manifest.outputPath, path);
+}
+
+function writeManifest(manifest: Manifest): Promise<void> {
+  const path = join(manifest.outputPath, MANIFEST_FILENAME);
+
+  // A failed write was already reported to its caller, don't fail every later one too
+  manifest.pendingWrite = manifest.pendingWrite
+    .catch(() => {})
+    .then(async () => {
+      // Write to a temporary file first so that a crash mid-write
+      // can't leave a half-written manifest behind.
+      const tmpPath = path + ".tmp";
+      await writeFile(
+        tmpPath,
+        JSON.stringify({ entries: manifest.entries }, null, 2)
+      );
+      await rename(tmpPath, path);
+    });
+
+  return manifest.pendingWrite;
+}
@@ -0,0 +1,278 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import { join, relative } from "path";
+import { fileExists } from "./utils";
+
+export const PATHS_FILENAME = "paths.json";
+
+export interface PlannedPath {
+  // Identifies the entry within its group, like its table of contents path
+  key: string;
+  // Where the entry would be saved, without an extension
+  path: string;
+  // Added to the path if another entry would be saved to the same place,
+  // like " (G1234)". Should be unique within the group.
+  suffix: string;
+}
+
+// What paths.json records, for finding files after a download
+export interface RecordedOutputPaths {
+  // Treat paths differing only in case as the same, like on Windows and macOS
+  caseInsensitive: boolean;
+  // group -> entry key -> path it's saved to, relative to the output
+  // directory, without an extension
+  groups: { [group: string]: { [key: string]: string } };
+  // group -> entry key -> file it was saved as, relative to the output
+  // directory, for entries whose extension depends on what was downloaded
+  files: { [group: string]: { [key: string]: string } };
+}
+
+export interface OutputPaths extends RecordedOutputPaths {
+  // Directory paths.json lives in. Recorded paths are relative to this.
+  outputPath: string;
+  // group -> path -> keys of the entries that would all have been saved there
+  collisions: { [group: string]: { [path: string]: string[] } };
+  // Writes are chained so that concurrent updates never interleave
+  pendingWrite: Promise<void>;
+}
+
+async function readPathsFile(outputPath: string): Promise<any> {
+  const path = join(outputPath, PATHS_FILENAME);
+  if (!(await fileExists(path))) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(await readFile(path, { encoding: "utf-8" }));
+  } catch (e) {
+    // worst case, paths are worked out again from the tables of contents
+    console.error(`Couldn't read ${path}: ${e}`);
+    return {};
+  }
+}
+
+/**
+ * Starts from the paths.json a previous run left in `outputPath`, so that
+ * groups a resumed or filtered run doesn't get to are kept.
+ */
+export async function loadOutputPaths(
+  outputPath: string,
+  caseInsensitive: boolean
+): Promise<OutputPaths> {
+  const content = await readPathsFile(outputPath);
+  return {
+    outputPath,
+    caseInsensitive,
+    groups: content.paths || {},
+    files: content.files || {},
+    collisions: content.collisions || {},
+    pendingWrite: Promise.resolve(),
+  };
+}
+
+// Reads what a download recorded in paths.json, like when building the
+// search index. Downloads from before paths.json existed get nothing.
+export async function readOutputPaths(
+  outputPath: string
+): Promise<RecordedOutputPaths> {
+  const content = await readPathsFile(outputPath);
+  return {
+    caseInsensitive: !!content.caseInsensitive,
+    groups: content.paths || {},
+    files: content.files || {},
+  };
+}
+
+/**
+ * Where the entries of a group were saved, by key, relative to the output
+ * directory. `planned` (also relative to the output directory) fills in
+ * entries paths.json doesn't have, worked out the same way assignPaths does.
+ */
+export function getRecordedPaths(
+  recorded: RecordedOutputPaths,
+  group: string,
+  planned: PlannedPath[]
+): Map<string, string> {
+  const { paths } = resolvePaths(planned, recorded.caseInsensitive);
+  for (const [key, path] of Object.entries(recorded.groups[group] || {})) {
+    if (paths.has(key)) {
+      paths.set(key, path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Works out where each entry is saved. Entries whose paths are the same
+ * after sanitizing and truncating all get their suffix added, so which
+ * entry gets which path doesn't depend on the order they're downloaded in.
+ *
+ * Keys should be unique, but if a key is planned with more than one path,
+ * its first path is used and the others are returned as duplicates.
+ *
+ * Returns a map of entry keys to paths, the collisions found and any
+ * duplicate keys.
+ */
+export function resolvePaths(
+  planned: PlannedPath[],
+  caseInsensitive: boolean
+): {
+  paths: Map<string, string>;
+  collisions: { [path: string]: string[] };
+  duplicates: { [key: string]: string[] };
+} {
+  const normalize = (path: string) =>
+    caseInsensitive ? path.toLowerCase() : path;
+
+  const firstPaths = new Map<string, string>();
+  const duplicates: { [key: string]: string[] } = {};
+  const byPath = new Map<string, PlannedPath[]>();
+  for (const entry of planned) {
+    const normalized = normalize(entry.path);
+    const firstPath = firstPaths.get(entry.key);
+    if (firstPath !== undefined && normalize(firstPath) !== normalized) {
+      duplicates[entry.key] = [
+        ...(duplicates[entry.key] || [firstPath]),
+        entry.path,
+      ];
+      continue;
+    }
+    firstPaths.set(entry.key, entry.path);
+
+    byPath.set(normalized, [...(byPath.get(normalized) || []), entry]);
+  }
+
+  const paths = new Map<string, string>();
+  const collisions: { [path: string]: string[] } = {};
+  byPath.forEach((entries) => {
+    const keys = Array.from(new Set(entries.map((e) => e.key)));
+    // The same entry planned twice isn't a collision
+    if (keys.length === 1) {
+      paths.set(keys[0], entries[0].path);
+      return;
+    }
+
+    collisions[entries[0].path] = keys;
+    for (const entry of entries) {
+      paths.set(entry.key, entry.path + entry.suffix);
+    }
+  });
+
+  // A suffixed path could still land on another entry's path. Number those,
+  // in table of contents order.
+  const taken = new Set<string>();
+  for (const key of new Set(planned.map((e) => e.key))) {
+    const base = paths.get(key)!;
+    let path = base;
+    for (let n = 2; taken.has(normalize(path)); n++) {
+      path = `${base} (${n})`;
+    }
+    paths.set(key, path);
+    taken.add(normalize(path));
+  }
+
+  return { paths, collisions, duplicates };
+}
+
+/**
+ * Resolves the paths for a group of entries that are saved side by side
+ * (like a workshop manual, or a list of connectors), records them in
+ * paths.json, and logs any collisions.
+ */
+export async function assignPaths(
+  outputPaths: OutputPaths,
+  group: string,
+  planned: PlannedPath[]
+): Promise<Map<string, string>> {
+  const { paths, collisions, duplicates } = resolvePaths(
+    planned,
+    outputPaths.caseInsensitive
+  );
+
+  for (const [key, duplicatePaths] of Object.entries(duplicates)) {
+    console.error(
+      `${
+        duplicatePaths.length
+      } entries in ${group} have the same key (${key}), so they'll all be saved to ${relative(
+        outputPaths.outputPath,
+        duplicatePaths[0]
+      )}.`
+    );
+  }
+
+  for (const [path, keys] of Object.entries(collisions)) {
+    console.log(
+      `${keys.length} entries in ${group} would be saved to ${relative(
+        outputPaths.outputPath,
+        path
+      )}, adding a suffix to each of them.`
+    );
+  }
+
+  const recorded: { [key: string]: string } = {};
+  paths.forEach((path, key) => {
+    recorded[key] = relative(outputPaths.outputPath, path);
+  });
+  outputPaths.groups[group] = recorded;
+
+  const recordedCollisions: { [path: string]: string[] } = {};
+  for (const [path, keys] of Object.entries(collisions)) {
+    recordedCollisions[relative(outputPaths.outputPath, path)] = keys;
+  }
+  outputPaths.collisions[group] = recordedCollisions;
+
+  await writeOutputPaths(outputPaths);
+  return paths;
+}
+
+// Files recorded for a group by recordFile, by key
+export const getRecordedFiles = (
+  outputPath: string,
+  recorded: RecordedOutputPaths,
+  group: string
+): Map<string, string> =>
+  new Map(
+    Object.entries(recorded.files[group] || {}).map(([key, file]) => [
+      key,
+      join(outputPath, file),
+    ])
+  );
+
+// Records the file an entry was saved as, once its extension is known
+export function recordFile(
+  outputPaths: OutputPaths,
+  group: string,
+  key: string,
+  file: string
+): Promise<void> {
+  outputPaths.files[group] = {
+    ...outputPaths.files[group],
+    [key]: relative(outputPaths.outputPath, file),
+  };
+  return writeOutputPaths(outputPaths);
+}
+
+function writeOutputPaths(outputPaths: OutputPaths): Promise<void> {
+  const path = join(outputPaths.outputPath, PATHS_FILENAME);
+
+  outputPaths.pendingWrite = outputPaths.pendingWrite
+    .catch(() => {})
+    .then(async () => {
+      const tmpPath = path + ".tmp";
+      await writeFile(
+        tmpPath,
+        JSON.stringify(
+          {
+            caseInsensitive: outputPaths.caseInsensitive,
+            collisions: outputPaths.collisions,
+            paths: outputPaths.groups,
+            files: outputPaths.files,
+          },
+          null,
+          2
+        )
+      );
+      await rename(tmpPath, path);
+    });
+
+  return outputPaths.pendingWrite;
+}
@@ -0,0 +1,394 @@
+import type { Config } from "./readConfig";
+import type { CLIArgs } from "./processCLIArgs";
+import { Manifest, manifestKey } from "./manifest";
+import fetchTreeAndCover, {
+  getPublications,
+  getTreeAndCoverParams,
+} from "./workshop/fetchTreeAndCover";
+import { getDocumentKind } from "./workshop/documentPaths";
+import fetchTableOfContents, {
+  getWiringFetchParams,
+  isBasicPage,
+  isConnectors,
+  isLocIndex,
+  isPage,
+  WiringTableOfContentsEntry,
+} from "./wiring/fetchTableOfContents";
+import fetchPageList from "./wiring/fetchPageList";
+import fetchConnectorList from "./wiring/fetchConnectorList";
+import fetchPre2003AlphabeticalIndex from "./pre-2003/fetchAlphabeticalIndex";
+import fetchPre2003TableOfContents, {
+  flattenPre2003TableOfContents,
+  pre2003HrefKey,
+} from "./pre-2003/fetchTableOfContents";
+import fetchLegacyWiringIndex from "./pre-2003/fetchLegacyWiringIndex";
+import {
+  filterPre2003DocumentList,
+  filterWiringTableOfContents,
+  filterWorkshopTableOfContents,
+} from "./filters";
+
+type PlanOptions = Pick<
+  CLIArgs,
+  | "doWorkshopDownload"
+  | "doWiringDownload"
+  | "pageConcurrency"
+  | "requestsPerSecond"
+  | "filters"
+>;
+
+// Rough per-document costs, only meant to tell a 20 minute run from a 20 hour one.
+// `requests` is how many requests to PTS saving one document takes.
+const ESTIMATES = {
+  workshopPage: { seconds: 3, bytes: 300_000, requests: 1 },
+  externalPDF: { seconds: 2, bytes: 1_500_000, requests: 1 },
+  relativeFile: { seconds: 1, bytes: 500_000, requests: 1 },
+  wiringPage: { seconds: 3, bytes: 2_000_000, requests: 1 },
+  connector: { seconds: 4, bytes: 200_000, requests: 3 },
+  pre2003Page: { seconds: 3, bytes: 200_000, requests: 1 },
+  legacyWiringDiagram: { seconds: 2, bytes: 150_000, requests: 1 },
+};
+
+type DocumentType = keyof typeof ESTIMATES;
+
+interface PlanTotals {
+  // Documents left to download, by type
+  remaining: { [type in DocumentType]: number };
+  // Documents a previous run already downloaded
+  alreadyDownloaded: number;
+}
+
+interface SectionCounts {
+  documents: number;
+  externalPDFs: number;
+  // Relative-path entries, files linked straight from the table of contents
+  relativeFiles: number;
+  alreadyDownloaded: number;
+}
+
+const isRecordedComplete = (manifest: Manifest, key: string): boolean =>
+  manifest.entries[key]?.status === "complete";
+
+function formatDuration(seconds: number): string {
+  // rounded up as a whole, so 59m 30s is 1h 00m rather than 60m
+  const total = Math.ceil(seconds / 60);
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return hours
+    ? `${hours}h ${minutes.toString().padStart(2, "0")}m`
+    : `${minutes}m`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+  return `${Math.ceil(bytes / 1e6)} MB`;
+}
+
+function describeCounts(counts: SectionCounts): string {
+  const parts = [`${counts.documents} documents`];
+  if (counts.externalPDFs) parts.push(`${counts.externalPDFs} PDFs`);
+  if (counts.relativeFiles) {
+    parts.push(`${counts.relativeFiles} linked files`);
+  }
+  if (counts.alreadyDownloaded) {
+    parts.push(`${counts.alreadyDownloaded} already downloaded`);
+  }
+  return parts.join(", ");
+}
+
+// Sections deeper than this are only counted towards their parents
+const MAX_TREE_DEPTH = 2;
+
+function planWorkshop(
+  toc: any,
+  manifest: Manifest,
+  totals: PlanTotals
+): SectionCounts {
+  // Returns the counts for a branch, and the lines to print for its sections
+  const walk = (
+    branch: any,
+    depth: number
+  ): { counts: SectionCounts; lines: string[] } => {
+    const counts: SectionCounts = {
+      documents: 0,
+      externalPDFs: 0,
+      relativeFiles: 0,
+      alreadyDownloaded: 0,
+    };
+    const lines: string[] = [];
+
+    for (const [name, docID] of Object.entries(branch)) {
+      if (typeof docID === "string" && docID.length > 0) {
+        const kind = getDocumentKind(docID);
+        if (kind === "externalPDF") counts.externalPDFs++;
+        else if (kind === "relativePath") counts.relativeFiles++;
+        else counts.documents++;
+
+        if (isRecordedComplete(manifest, manifestKey("workshop", docID))) {
+          counts.alreadyDownloaded++;
+          totals.alreadyDownloaded++;
+        } else {
+          totals.remaining[
+            kind === "externalPDF"
+              ? "externalPDF"
+              : kind === "relativePath"
+              ? "relativeFile"
+              : "workshopPage"
+          ]++;
+        }
+        continue;
+      }
+
+      const child = walk(docID, depth + 1);
+      if (depth < MAX_TREE_DEPTH) {
+        lines.push(
+          `${"  ".repeat(depth + 1)}${name}: ${describeCounts(child.counts)}`,
+          ...child.lines
+        );
+      }
+
+      counts.documents += child.counts.documents;
+      counts.externalPDFs += child.counts.externalPDFs;
+      counts.relativeFiles += child.counts.relativeFiles;
+      counts.alreadyDownloaded += child.counts.alreadyDownloaded;
+    }
+
+    return { counts, lines };
+  };
+
+  const { counts, lines } = walk(toc, 0);
+  lines.forEach((line) => console.log(line));
+  return counts;
+}
+
+async function planWiring(
+  config: Config,
+  toc: WiringTableOfContentsEntry[],
+  manifest: Manifest,
+  totals: PlanTotals
+) {
+  const params = {
+    ...getWiringFetchParams(config),
+    vehicleId: config.workshop.vehicleId,
+    country: config.workshop.country,
+  };
+
+  // Page lists are fetched in parallel, within the client's request limits
+  const lines = await Promise.all(
+    toc.map(async (doc) => {
+      if (isPage(doc) || isBasicPage(doc)) {
+        const pageList = await fetchPageList({
+          ...params,
+          cell: doc.Number,
+          title: doc.Title,
+          page: "1",
+        });
+
+        let done = 0;
+        for (const page of pageList) {
+          const pageID = typeof page === "string" ? page : page.Value;
+          if (
+            isRecordedComplete(
+              manifest,
+              manifestKey("wiring", doc.Number, pageID)
+            )
+          ) {
+            done++;
+          }
+        }
+        totals.alreadyDownloaded += done;
+        totals.remaining.wiringPage += pageList.length - done;
+
+        return `  ${doc.Title}: ${pageList.length} pages${
+          done ? `, ${done} already downloaded` : ""
+        }`;
+      } else if (isConnectors(doc)) {
+        const connectors = await fetchConnectorList(params);
+
+        let done = 0;
+        for (const connector of connectors) {
+          if (
+            isRecordedComplete(
+              manifest,
+              manifestKey("connector", doc.Number, connector.Name)
+            )
+          ) {
+            done++;
+          }
+        }
+        totals.alreadyDownloaded += done;
+        totals.remaining.connector += connectors.length - done;
+
+        return `  ${doc.Title}: ${connectors.length} connectors${
+          done ? `, ${done} already downloaded` : ""
+        }`;
+      } else if (isLocIndex(doc)) {
+        return `  ${doc.Title}: connector location index (Connectors.csv)`;
+      }
+
+      return `  ${doc.Title}: unrecognized type ${doc.Type}, only its table of contents entry and page list will be saved`;
+    })
+  );
+
+  lines.forEach((line) => console.log(line));
+}
+
+/**
+ * Fetches only the tables of contents and wiring page lists, then prints
+ * what a download would save and roughly how long it would take, without
+ * downloading anything.
+ */
+export default async function planDownload(
+  config: Config,
+  options: PlanOptions,
+  manifest: Manifest,
+  rawCookieString: string
+): Promise<void> {
+  const totals: PlanTotals = {
+    remaining: {
+      workshopPage: 0,
+      externalPDF: 0,
+      relativeFile: 0,
+      wiringPage: 0,
+      connector: 0,
+      pre2003Page: 0,
+      legacyWiringDiagram: 0,
+    },
+    alreadyDownloaded: 0,
+  };
+
+  if (options.doWorkshopDownload) {
+    if (parseInt(config.workshop.modelYear) >= 2003) {
+      for (const publication of getPublications(config)) {
+        console.log(`Fetching ${publication.name} table of contents...`);
+        const { tableOfContents } = await fetchTreeAndCover(
+          getTreeAndCoverParams(config, publication),
+          publication
+        );
+        const { toc } = filterWorkshopTableOfContents(
+          tableOfContents,
+          options.filters
+        );
+
+        console.log(`\n${publication.name}`);
+        const counts = planWorkshop(toc, manifest, totals);
+        console.log(`  Total: ${describeCounts(counts)}\n`);
+      }
+    } else {
+      console.log("Fetching pre-2003 alphabetical index...");
+      let { documentList } = await fetchPre2003AlphabeticalIndex(
+        config.pre_2003.alphabeticalIndexURL,
+        rawCookieString
+      );
+
+      // pages in the table of contents are saved once, even if they're
+      // in the alphabetical index too
+      if (config.pre_2003.tocURL) {
+        console.log("Crawling pre-2003 table of contents...");
+        const tocDocuments = flattenPre2003TableOfContents(
+          await fetchPre2003TableOfContents(
+            config.pre_2003.tocURL,
+            rawCookieString
+          )
+        );
+        const inToc = new Set(
+          tocDocuments.map((doc) => pre2003HrefKey(doc.href))
+        );
+        documentList = [
+          ...tocDocuments,
+          ...documentList.filter((doc) => !inToc.has(pre2003HrefKey(doc.href))),
+        ];
+      }
+
+      const pages = filterPre2003DocumentList(
+        documentList,
+        options.filters
+      ).documentList.filter(
+        (doc) => doc.href.endsWith(".htm") || doc.href.endsWith(".HTM")
+      );
+
+      const done = pages.filter((doc) =>
+        isRecordedComplete(manifest, manifestKey("pre2003", doc.href))
+      ).length;
+      totals.alreadyDownloaded += done;
+      totals.remaining.pre2003Page += pages.length - done;
+
+      console.log("\nPre-2003 workshop manual");
+      console.log(
+        `  ${pages.length} pages${done ? `, ${done} already downloaded` : ""}`
+      );
+    }
+  }
+
+  if (
+    options.doWiringDownload &&
+    parseInt(config.workshop.modelYear) < 2003 &&
+    config.pre_2003.wiringIndexURL
+  ) {
+    console.log("\nFetching pre-2003 wiring diagram index...");
+    const diagrams = filterPre2003DocumentList(
+      await fetchLegacyWiringIndex(
+        config.pre_2003.wiringIndexURL,
+        rawCookieString
+      ),
+      options.filters
+    ).documentList;
+
+    const done = diagrams.filter((diagram) =>
+      isRecordedComplete(manifest, manifestKey("legacyWiring", diagram.href))
+    ).length;
+    totals.alreadyDownloaded += done;
+    totals.remaining.legacyWiringDiagram += diagrams.length - done;
+
+    console.log("\nWiring diagrams (GIF)");
+    console.log(
+      `  ${diagrams.length} diagrams${
+        done ? `, ${done} already downloaded` : ""
+      }`
+    );
+  } else if (options.doWiringDownload) {
+    console.log("\nFetching wiring table of contents and page lists...");
+    const { toc } = filterWiringTableOfContents(
+      await fetchTableOfContents(getWiringFetchParams(config)),
+      options.filters
+    );
+
+    console.log("\nWiring diagrams");
+    await planWiring(config, toc, manifest, totals);
+  }
+
+  let seconds = 0;
+  let bytes = 0;
+  let requests = 0;
+  let documents = 0;
+  for (const [type, count] of Object.entries(totals.remaining)) {
+    const estimate = ESTIMATES[type as DocumentType];
+    seconds += estimate.seconds * count;
+    bytes += estimate.bytes * count;
+    requests += estimate.requests * count;
+    documents += count;
+  }
+
+  // Pages work in parallel, but never faster than the rate limit allows
+  const estimatedSeconds = Math.max(
+    seconds / options.pageConcurrency,
+    options.requestsPerSecond > 0 ? requests / options.requestsPerSecond : 0
+  );
+
+  console.log("\nSummary");
+  console.log(`  ${documents} documents to download`);
+  if (totals.alreadyDownloaded) {
+    console.log(
+      `  ${totals.alreadyDownloaded} documents already downloaded by a previous run`
+    );
+  }
+  console.log(
+    `  Estimated time: ${formatDuration(estimatedSeconds)} with --pages ${
+      options.pageConcurrency
+    } and --rateLimit ${options.requestsPerSecond}`
+  );
+  console.log(`  Estimated disk space: ${formatBytes(bytes)}`);
+  console.log(
+    "\nThese are rough estimates: your connection, computer and disk make a big difference."
+  );
+}
@@ -2,9 +2,19 @@ import client from "../client";
 import { JSDOM } from "jsdom";
 import { sanitizeName } from "../utils";
 
+// The links in the alphabetical index, saved in the output directory
+export const ALPHABETICAL_INDEX_FILENAME = "AA_alphabeticalIndex.json";
+
+// Where a page's link in the alphabetical index should point, relative to
+// the output directory. By default, a PDF named after the page.
+type LocalHref = (document: Pre2003Document) => string;
+
+const defaultLocalHref: LocalHref = (document) => document.title + ".pdf";
+
 export default async function fetchPre2003AlphabeticalIndex(
   url: string,
-  cookieString: string
+  cookieString: string,
+  localHref: LocalHref = defaultLocalHref
 ): Promise<{
   documentList: Pre2003AlphabeticalIndex;
   pageHTML: string;
@@ -18,7 +28,10 @@ export default async function fetchPre2003AlphabeticalIndex(
     url,
   });
 
-  const { docList, modifiedHTML } = processPre2003AlphabeticalIndex(req.data);
+  const { docList, modifiedHTML } = processPre2003AlphabeticalIndex(
+    req.data,
+    localHref
+  );
 
   return {
     documentList: docList,
@@ -30,11 +43,16 @@ export default async function fetchPre2003AlphabeticalIndex(
 export interface Pre2003Document {
   href: string;
   title: string;
+  // Where the page is in the table of contents, if it was crawled
+  tocPath?: string[];
 }
 
 export type Pre2003AlphabeticalIndex = Pre2003Document[];
 
-function processPre2003AlphabeticalIndex(data: string): {
+function processPre2003AlphabeticalIndex(
+  data: string,
+  localHref: LocalHref
+): {
   docList: Pre2003AlphabeticalIndex;
   modifiedHTML: string;
 } {
@@ -85,12 +103,13 @@ function processPre2003AlphabeticalIndex(data: string): {
         sanitizedTitle = sanitizedTitle.substring(0, 200) + " (truncated)";
       }
 
-      documentList.push({
+      const doc = {
         href: aChild.href,
         title: sanitizedTitle,
-      });
+      };
+      documentList.push(doc);
 
-      aChild.href = sanitizedTitle + ".pdf";
+      aChild.href = localHref(doc);
     }
   }
 
@@ -0,0 +1,119 @@
+import client from "../client";
+import { JSDOM } from "jsdom";
+import { sanitizeName } from "../utils";
+import { shouldAbort } from "../errors";
+import type { Pre2003Document } from "./fetchAlphabeticalIndex";
+
+// Pre-2003 wiring diagrams are GIFs, like
+// https://www.fordservicecontent.com/Ford_Content/pubs/auxf/~WE/USENIE/EWH/EWHCF099.GIF
+const WIRING_GIF_REGEX = /\/pubs\/auxf\/~WE\/.*EWH[^/]*\.GIF$/i;
+
+const isHTMLPage = (url: URL) => /\.html?$/i.test(url.pathname);
+
+// jsdom hands back hrefs it can't resolve as they are
+const parseURL = (href: string): URL | undefined => {
+  try {
+    return new URL(href);
+  } catch {
+    console.error(`Skipping link to ${href}, it isn't a valid URL.`);
+    return undefined;
+  }
+};
+
+async function fetchHTML(url: string, cookieString: string): Promise<string> {
+  const req = await client({
+    method: "GET",
+    headers: {
+      Cookie: cookieString,
+    },
+    url,
+  });
+  return req.data;
+}
+
+// Wiring GIFs linked or shown on a page, in page order
+function findWiringGIFs(document: Document): URL[] {
+  const urls: URL[] = [];
+  const elements = document.querySelectorAll("a[href], img[src]");
+  elements.forEach((el) => {
+    const url = parseURL(
+      (el as HTMLAnchorElement).href || (el as HTMLImageElement).src
+    );
+    if (url && WIRING_GIF_REGEX.test(url.pathname)) {
+      urls.push(url);
+    }
+  });
+  return urls;
+}
+
+/**
+ * Finds the GIF wiring diagrams linked from a pre-2003 wiring index page.
+ * Diagrams are either linked directly, or shown on a page the index links
+ * to, so pages linked from the index are searched too (but only one level
+ * deep). `href` is the GIF's full URL.
+ */
+export default async function fetchLegacyWiringIndex(
+  url: string,
+  cookieString: string
+): Promise<Pre2003Document[]> {
+  const { document } = new JSDOM(await fetchHTML(url, cookieString), {
+    url,
+  }).window;
+
+  const diagrams: Pre2003Document[] = [];
+  const seen = new Set<string>();
+  const add = (gifURL: URL, title: string) => {
+    if (seen.has(gifURL.href)) {
+      return;
+    }
+    seen.add(gifURL.href);
+
+    let sanitizedTitle = sanitizeName(
+      title.trim() ||
+        gifURL.pathname.slice(gifURL.pathname.lastIndexOf("/") + 1)
+    );
+    if (sanitizedTitle.length > 200) {
+      sanitizedTitle = sanitizedTitle.substring(0, 200) + " (truncated)";
+    }
+    diagrams.push({ href: gifURL.href, title: sanitizedTitle });
+  };
+
+  // Linked pages are fetched one at a time, so an error that stops the run
+  // doesn't leave others going
+  for (const anchor of Array.from(document.querySelectorAll("a[href]"))) {
+    const linkURL = parseURL((anchor as HTMLAnchorElement).href);
+    const title = anchor.textContent || "";
+
+    if (!linkURL) {
+      continue;
+    }
+    if (WIRING_GIF_REGEX.test(linkURL.pathname)) {
+      add(linkURL, title);
+      continue;
+    }
+    if (!isHTMLPage(linkURL) || linkURL.host !== new URL(url).host) {
+      continue;
+    }
+
+    let html: string;
+    try {
+      html = await fetchHTML(linkURL.href, cookieString);
+    } catch (e) {
+      if (shouldAbort(e)) {
+        throw e;
+      }
+      // the rest of the index is still worth saving
+      console.error(`Couldn't fetch wiring index page ${linkURL.href}:`, e);
+      continue;
+    }
+
+    const gifs = findWiringGIFs(
+      new JSDOM(html, { url: linkURL.href }).window.document
+    );
+    gifs.forEach((gif, i) =>
+      add(gif, gifs.length > 1 ? `${title} - ${i + 1}` : title)
+    );
+  }
+
+  return diagrams;
+}
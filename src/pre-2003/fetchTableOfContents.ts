@@ -0,0 +1,142 @@
+import client from "../client";
+import { JSDOM } from "jsdom";
+import { sanitizeName } from "../utils";
+import type { Pre2003Document } from "./fetchAlphabeticalIndex";
+
+// Where the crawled table of contents is saved in the output directory.
+// Not toc.json, so it isn't mistaken for a modern manual's.
+export const PRE2003_TOC_FILENAME = "pre2003-toc.json";
+
+// Like the modern toc.json: section names map to sub-sections, and page
+// names map to the page's href (a path on fordservicecontent.com)
+export interface Pre2003TableOfContents {
+  [title: string]: string | Pre2003TableOfContents;
+}
+
+// Sub-TOCs link to each other, and back up to their parents
+const MAX_DEPTH = 10;
+
+const isHTMLPage = (url: URL) => /\.html?$/i.test(url.pathname);
+
+// Pre-2003 hrefs are matched ignoring case, since PTS mixes .htm and .HTM
+export const pre2003HrefKey = (href: string): string => {
+  const url = new URL(href, "https://www.fordservicecontent.com");
+  return (url.pathname + url.search).toLowerCase();
+};
+
+async function fetchHTML(url: string, cookieString: string): Promise<string> {
+  const req = await client({
+    method: "GET",
+    headers: {
+      Cookie: cookieString,
+    },
+    url,
+  });
+  return req.data;
+}
+
+function toTitle(text: string): string {
+  let sanitizedTitle = sanitizeName(text.replace(/\s+/g, " ").trim());
+  if (sanitizedTitle.length > 200) {
+    sanitizedTitle = sanitizedTitle.substring(0, 200) + " (truncated)";
+  }
+  return sanitizedTitle;
+}
+
+/**
+ * Crawls the pre-2003 sidebar table of contents at `url`, following the
+ * links to section and sub-section TOCs (the ones that open in the
+ * sidebar, with target="_parent") to rebuild the manual's hierarchy.
+ * Every other link to an HTML page is a page of the manual.
+ */
+export default async function fetchPre2003TableOfContents(
+  url: string,
+  cookieString: string
+): Promise<Pre2003TableOfContents> {
+  const visited = new Set<string>();
+
+  async function crawl(
+    pageURL: string,
+    depth: number
+  ): Promise<Pre2003TableOfContents> {
+    visited.add(pre2003HrefKey(pageURL));
+    console.log(`Fetching table of contents page ${pageURL}...`);
+
+    const { document } = new JSDOM(await fetchHTML(pageURL, cookieString), {
+      url: pageURL,
+    }).window;
+
+    const toc: Pre2003TableOfContents = {};
+    const add = (title: string, value: string | Pre2003TableOfContents) => {
+      let name = title;
+      for (let i = 2; name in toc; i++) {
+        name = `${title} (${i})`;
+      }
+      toc[name] = value;
+    };
+
+    for (const anchor of Array.from(document.querySelectorAll("a[href]"))) {
+      const link = anchor as HTMLAnchorElement;
+      const linkURL = new URL(link.href);
+      const title = toTitle(link.textContent || "");
+      if (
+        !title ||
+        !isHTMLPage(linkURL) ||
+        linkURL.host !== new URL(pageURL).host
+      ) {
+        continue;
+      }
+
+      const href = linkURL.pathname + linkURL.search;
+      if (link.target !== "_parent") {
+        add(title, href);
+        continue;
+      }
+
+      if (visited.has(pre2003HrefKey(href)) || depth >= MAX_DEPTH) {
+        continue;
+      }
+
+      const section = await crawl(linkURL.href, depth + 1);
+      if (Object.keys(section).length) {
+        add(title, section);
+      }
+    }
+
+    return toc;
+  }
+
+  return crawl(url, 0);
+}
+
+// A page in the pre-2003 table of contents, and where it is in it
+export type Pre2003TableOfContentsDocument = Pre2003Document & {
+  tocPath: string[];
+};
+
+// Every page in `toc`, in order. A page linked from more than one
+// section is only listed the first time.
+export function flattenPre2003TableOfContents(
+  toc: Pre2003TableOfContents,
+  tocPath: string[] = [],
+  seen = new Set<string>()
+): Pre2003TableOfContentsDocument[] {
+  const documents: Pre2003TableOfContentsDocument[] = [];
+
+  for (const [title, value] of Object.entries(toc)) {
+    if (typeof value !== "string") {
+      documents.push(
+        ...flattenPre2003TableOfContents(value, [...tocPath, title], seen)
+      );
+      continue;
+    }
+
+    if (seen.has(pre2003HrefKey(value))) {
+      continue;
+    }
+    seen.add(pre2003HrefKey(value));
+    documents.push({ href: value, title, tocPath: [...tocPath, title] });
+  }
+
+  return documents;
+}
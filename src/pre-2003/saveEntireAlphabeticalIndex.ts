@@ -1,53 +1,132 @@
-import { Page } from "playwright";
 import { join, resolve } from "path";
 import { fileExists, sanitizeName } from "../utils";
 import { writeFile } from "fs/promises";
-import type { Pre2003AlphabeticalIndex } from "./fetchAlphabeticalIndex";
+import type {
+  Pre2003AlphabeticalIndex,
+  Pre2003Document,
+} from "./fetchAlphabeticalIndex";
 import type { SaveOptions } from "../workshop/saveEntireManual";
+import type { PagePool } from "../concurrency";
+import { waitForRateLimit } from "../client";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
+import { shouldAbort } from "../errors";
+import { retryInvalidContent, validateContent } from "../validateContent";
+import { AssetStore, localizeHTML } from "../assets";
+import { pre2003HrefKey } from "./fetchTableOfContents";
+
+// What links in saved HTML pages point to instead of PTS
+export interface Pre2003LocalLinks {
+  // Where every page in the manual is saved, by pre2003HrefKey, without
+  // an extension
+  pagePaths: Map<string, string>;
+  assets: AssetStore;
+}
 
 export default async function saveEntirePre2003AlphabeticalIndex(
   outputPath: string,
   documentList: Pre2003AlphabeticalIndex,
-  browserPage: Page,
-  options: SaveOptions
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  links: Pre2003LocalLinks
 ): Promise<void> {
-  for (const document of documentList) {
-    const { href, title } = document;
-    const filename = sanitizeName(title);
+  await pages.forEach(documentList, (document) =>
+    savePre2003Document(
+      document,
+      join(outputPath, sanitizeName(document.title)),
+      pages,
+      options,
+      manifest,
+      links
+    )
+  );
+}
 
-    if (!href.endsWith(".htm") && !href.endsWith(".HTM")) {
-      console.log(`Skipping ${title} because it's not an HTML document.`);
-      continue;
-    }
+export async function savePre2003Document(
+  document: Pre2003Document,
+  // Where to save the page, without an extension
+  path: string,
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  links: Pre2003LocalLinks
+): Promise<void> {
+  const { href, title } = document;
 
-    const pdfPath = join(outputPath, `/${filename}.pdf`);
+  if (!href.endsWith(".htm") && !href.endsWith(".HTM")) {
+    console.log(`Skipping ${title} because it's not an HTML document.`);
+    return;
+  }
 
-    if (await fileExists(pdfPath)) {
-      console.log(`Skipping ${title} because it already exists.`);
-      continue;
-    }
+  const key = manifestKey("pre2003", href);
+  const pdfPath = `${path}.pdf`;
+  const htmlPath = resolve(`${path}.html`);
+  const expectedFiles = options.saveHTML ? [pdfPath, htmlPath] : [pdfPath];
 
+  if (await isComplete(manifest, key, expectedFiles)) {
+    console.log(`Skipping ${title} because it was already downloaded.`);
+    return;
+  }
+
+  // Downloads from before the manifest existed only have the PDF to go by
+  if (!manifest.entries[key] && (await fileExists(pdfPath))) {
+    console.log(`Skipping ${title} because it already exists.`);
+    await markComplete(manifest, key, [pdfPath]);
+    return;
+  }
+
+  await pages.use(async (browserPage) => {
     console.log(`Saving ${title}...`);
     try {
-      await browserPage.goto("https://www.fordservicecontent.com" + href, {
-        waitUntil: "load",
+      await retryInvalidContent(title, async () => {
+        await waitForRateLimit();
+        await browserPage.goto("https://www.fordservicecontent.com" + href, {
+          waitUntil: "load",
+        });
+        validateContent(
+          await browserPage.content(),
+          "pre2003Page",
+          title,
+          browserPage.url()
+        );
       });
 
       await browserPage.pdf({
         path: pdfPath,
       });
 
+      // links to other pages and images go to the local copies
       if (options.saveHTML) {
-        const htmlPath = resolve(join(outputPath, `/${filename}.html`));
-        await writeFile(htmlPath, await browserPage.content());
+        const html = await localizeHTML(
+          await browserPage.content(),
+          browserPage.url(),
+          htmlPath,
+          links.assets,
+          (url) => {
+            const path = links.pagePaths.get(pre2003HrefKey(url.href));
+            return path && `${path}.html`;
+          }
+        );
+        await writeFile(htmlPath, html);
       }
+
+      await markComplete(manifest, key, expectedFiles);
     } catch (e) {
-      if (options.ignoreSaveErrors) {
+      await markFailed(manifest, key, e);
+
+      // no point carrying on if every other page will fail the same way
+      if (options.ignoreSaveErrors && !shouldAbort(e)) {
         console.error(`Continuing to download after error with ${title}:`, e);
       } else {
         console.error(`Encountered an error downloading ${title}`);
         throw e;
       }
     }
-  }
+  });
 }
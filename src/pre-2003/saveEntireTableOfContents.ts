@@ -0,0 +1,49 @@
+import { mkdir } from "fs/promises";
+import { basename, dirname, join } from "path";
+import type { PagePool } from "../concurrency";
+import type { SaveOptions } from "../workshop/saveEntireManual";
+import type { Manifest } from "../manifest";
+import type { PlannedPath } from "../outputPaths";
+import type { Pre2003TableOfContentsDocument } from "./fetchTableOfContents";
+import {
+  Pre2003LocalLinks,
+  savePre2003Document,
+} from "./saveEntireAlphabeticalIndex";
+
+// Name of the paths.json group the table of contents' pages are recorded
+// under
+export const PRE2003_PATHS_GROUP = "pre2003";
+
+// Where each page would be saved, keyed by href, for resolvePaths to
+// check for collisions. Colliding pages get their file name on PTS added.
+export const planPre2003Paths = (
+  documents: Pre2003TableOfContentsDocument[],
+  outputPath: string
+): PlannedPath[] =>
+  documents.map((document) => ({
+    key: document.href,
+    path: join(outputPath, ...document.tocPath),
+    suffix: ` (${basename(
+      new URL(document.href, "https://www.fordservicecontent.com").pathname
+    ).replace(/\.html?$/i, "")})`,
+  }));
+
+/**
+ * Saves the pages of a crawled pre-2003 table of contents into nested
+ * folders, one per section. `documentPaths` is where each page goes,
+ * by href, without an extension.
+ */
+export default async function saveEntirePre2003TableOfContents(
+  documents: Pre2003TableOfContentsDocument[],
+  documentPaths: Map<string, string>,
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  links: Pre2003LocalLinks
+): Promise<void> {
+  await pages.forEach(documents, async (document) => {
+    const path = documentPaths.get(document.href)!;
+    await mkdir(dirname(path), { recursive: true });
+    await savePre2003Document(document, path, pages, options, manifest, links);
+  });
+}
@@ -0,0 +1,186 @@
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { basename, join } from "path";
+import client from "../client";
+import type { PagePool } from "../concurrency";
+import type { Pre2003Document } from "./fetchAlphabeticalIndex";
+import type { SaveOptions } from "../workshop/saveEntireManual";
+import saveStream, { hasGIFSignature } from "../utils";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
+import { OutputPaths, assignPaths } from "../outputPaths";
+import { DownloadFilters, filterPre2003DocumentList } from "../filters";
+import { PTSError, shouldAbort } from "../errors";
+import { retryInvalidContent } from "../validateContent";
+import { escapeHTML, toHref, writeIndexPage } from "../workshop/saveIndexPage";
+
+export type LegacyWiringOptions = SaveOptions & {
+  // Also save each GIF as a landscape PDF
+  wrapInPDF: boolean;
+};
+
+// Entry in Wiring/toc.json for pre-2003 vehicles
+export interface LegacyWiringTableOfContentsEntry {
+  title: string;
+  // The GIF's URL on Ford's server
+  href: string;
+  // Relative to the Wiring folder, without an extension
+  file: string;
+}
+
+// Shows a GIF as big as it fits on a landscape page
+const wrapGIF = (gif: Buffer) => `<!DOCTYPE html>
+<html>
+<head>
+<style>
+@page { size: landscape; margin: 0.25in; }
+html, body { margin: 0; height: 100%; }
+body { display: flex; align-items: center; justify-content: center; }
+img { max-width: 100%; max-height: 100%; }
+</style>
+</head>
+<body><img src="data:image/gif;base64,${gif.toString("base64")}"></body>
+</html>`;
+
+/**
+ * Saves the GIF wiring diagrams of a pre-2003 vehicle to a Wiring folder,
+ * with a toc.json and an index.html to browse them.
+ */
+export default async function saveLegacyWiring(
+  outputPath: string,
+  diagrams: Pre2003Document[],
+  pages: PagePool,
+  options: LegacyWiringOptions,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  filters: DownloadFilters
+): Promise<void> {
+  const wiringPath = join(outputPath, "Wiring");
+  await mkdir(wiringPath, { recursive: true });
+
+  const diagramPaths = await assignPaths(
+    outputPaths,
+    "Wiring",
+    diagrams.map((diagram) => ({
+      key: diagram.href,
+      path: join(wiringPath, diagram.title),
+      suffix: ` (${basename(new URL(diagram.href).pathname).replace(
+        /\.gif$/i,
+        ""
+      )})`,
+    }))
+  );
+
+  const toc: LegacyWiringTableOfContentsEntry[] = diagrams.map((diagram) => ({
+    title: diagram.title,
+    href: diagram.href,
+    file: basename(diagramPaths.get(diagram.href)!),
+  }));
+  await writeFile(join(wiringPath, "toc.json"), JSON.stringify(toc, null, 2));
+
+  const links = toc.map((entry) => {
+    const crumbs = escapeHTML(JSON.stringify([entry.title]));
+    const pdfLink = options.wrapInPDF
+      ? ` <a class="alt" href="${toHref([
+          `${entry.file}.pdf`,
+        ])}" target="viewer" data-crumbs="${crumbs}">PDF</a>`
+      : "";
+    return `<li><a href="${toHref([
+      `${entry.file}.gif`,
+    ])}" target="viewer" data-crumbs="${crumbs}">${escapeHTML(
+      entry.title
+    )}</a>${pdfLink}</li>`;
+  });
+  await writeIndexPage(
+    wiringPath,
+    "Wiring Diagrams",
+    `<ul>${links.join("")}</ul>`,
+    toc.length ? toHref([`${toc[0].file}.gif`]) : "about:blank"
+  );
+
+  const { documentList: filteredDiagrams, filtered } =
+    filterPre2003DocumentList(diagrams, filters);
+  if (filtered) {
+    console.log(
+      `Skipping ${filtered} of ${diagrams.length} wiring diagrams because of --include/--exclude.`
+    );
+  }
+
+  await pages.forEach(filteredDiagrams, (diagram) =>
+    saveDiagram(
+      diagram,
+      diagramPaths.get(diagram.href)!,
+      pages,
+      options,
+      manifest
+    )
+  );
+}
+
+async function saveDiagram(
+  diagram: Pre2003Document,
+  // Where to save the diagram, without an extension
+  path: string,
+  pages: PagePool,
+  options: LegacyWiringOptions,
+  manifest: Manifest
+): Promise<void> {
+  const { href, title } = diagram;
+  const key = manifestKey("legacyWiring", href);
+  const gifPath = `${path}.gif`;
+  const pdfPath = `${path}.pdf`;
+  const expectedFiles = options.wrapInPDF ? [gifPath, pdfPath] : [gifPath];
+
+  if (await isComplete(manifest, key, expectedFiles)) {
+    console.log(`Skipping wiring diagram ${title}, already downloaded.`);
+    return;
+  }
+
+  console.log(`Saving wiring diagram ${title}...`);
+
+  try {
+    await retryInvalidContent(`Wiring diagram ${title}`, async () => {
+      const req = await client({
+        url: href,
+        responseType: "stream",
+      });
+      await saveStream(req.data, gifPath);
+
+      // error pages come back as HTML
+      if (!(await hasGIFSignature(gifPath))) {
+        await unlink(gifPath);
+        throw new PTSError(
+          "invalidContent",
+          `Wiring diagram ${title} (${href}) isn't a GIF.`
+        );
+      }
+    });
+
+    if (options.wrapInPDF) {
+      const gif = await readFile(gifPath);
+      await pages.use(async (browserPage) => {
+        await browserPage.setContent(wrapGIF(gif), { waitUntil: "load" });
+        await browserPage.pdf({
+          path: pdfPath,
+          landscape: true,
+        });
+      });
+    }
+
+    await markComplete(manifest, key, expectedFiles);
+  } catch (e) {
+    await markFailed(manifest, key, e);
+
+    // no point carrying on if every other diagram will fail the same way
+    if (options.ignoreSaveErrors && !shouldAbort(e)) {
+      console.error(`Continuing to download after error with ${title}:`, e);
+    } else {
+      console.error(`Encountered an error downloading ${title}`);
+      throw e;
+    }
+  }
+}
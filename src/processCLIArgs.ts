@@ -1,5 +1,10 @@
 import commandLineArgs from "command-line-args";
 import commandLineUsage from "command-line-usage";
+import { DownloadFilters, parseFilters } from "./filters";
+import { PaperSize, parsePaperSize } from "./wiring/paperSize";
+
+// What --wiringPNGs saves at without a number
+const DEFAULT_PNG_DPI = 150;
 
 export interface CLIArgs {
   configPath: string;
@@ -11,8 +16,20 @@ export interface CLIArgs {
   doCookieTest: boolean;
   saveHTML: boolean;
   ignoreSaveErrors: boolean;
+  caseInsensitivePaths: boolean;
+  wrapWiringGIFs: boolean;
+  combineWiringPDFs: boolean;
+  wiringBookPDF: boolean;
+  paperSize?: PaperSize;
+  // DPI to save wiring PNGs at, if they should be saved
+  wiringPNGDPI?: number;
   browserMode: "managed" | "remote";
   remoteDebuggingUrl: string;
+  pageConcurrency: number;
+  requestConcurrency: number;
+  requestsPerSecond: number;
+  filters: DownloadFilters;
+  planOnly: boolean;
 }
 
 export default function processCLIArgs(): CLIArgs {
@@ -35,33 +52,61 @@ export default function processCLIArgs(): CLIArgs {
     {
       name: "noWorkshop",
       type: Boolean,
-      default: false,
+      defaultValue: false,
     },
     {
       name: "noWiring",
       type: Boolean,
-      default: false,
+      defaultValue: false,
     },
     {
       name: "noParamsValidation",
       type: Boolean,
-      default: false,
+      defaultValue: false,
     },
     {
       name: "noCookieTest",
       type: Boolean,
-      default: false,
+      defaultValue: false,
     },
     {
       name: "saveHTML",
       type: Boolean,
-      default: false,
+      defaultValue: false,
     },
     {
       name: "ignoreSaveErrors",
       alias: "i",
       type: Boolean,
-      default: false,
+      defaultValue: false,
+    },
+    {
+      name: "caseInsensitivePaths",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "wrapWiringGIFs",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "combineWiringPDFs",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "wiringBookPDF",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "paperSize",
+      type: String,
+    },
+    {
+      name: "wiringPNGs",
+      type: Number,
     },
     {
       name: "browserMode",
@@ -72,6 +117,38 @@ export default function processCLIArgs(): CLIArgs {
       name: "remoteDebuggingUrl",
       type: String,
     },
+    {
+      name: "pages",
+      type: Number,
+      defaultValue: 1,
+    },
+    {
+      name: "requests",
+      type: Number,
+      defaultValue: 1,
+    },
+    {
+      name: "rateLimit",
+      type: Number,
+      defaultValue: 2,
+    },
+    {
+      name: "plan",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "include",
+      type: String,
+      multiple: true,
+      defaultValue: [],
+    },
+    {
+      name: "exclude",
+      type: String,
+      multiple: true,
+      defaultValue: [],
+    },
     {
       name: "help",
       type: Boolean,
@@ -84,6 +161,25 @@ export default function processCLIArgs(): CLIArgs {
       content:
         "Download the full Ford workshop manual for your car. Must have a valid PTS subscription.",
     },
+    {
+      header: "Commands",
+      content: [
+        {
+          name: "(none)",
+          summary: "Download the manual. Uses the options below.",
+        },
+        {
+          name: "search",
+          summary:
+            "Search a downloaded manual. Run {bold yarn start search --help} for details.",
+        },
+        {
+          name: "wiring",
+          summary:
+            "Look up a circuit, wire colour or component in downloaded wiring diagrams. Run {bold yarn start wiring --help} for details.",
+        },
+      ],
+    },
     {
       header: "Options",
       optionList: [
@@ -137,6 +233,45 @@ export default function processCLIArgs(): CLIArgs {
           description:
             "Ignore errors and continue downloading the manual when there's an error saving or PDF-ing a page. Default: false.",
         },
+        {
+          name: "caseInsensitivePaths",
+          typeLabel: " ",
+          description:
+            "Treat file names that only differ in case as the same when checking for name collisions. Use this when saving to Windows or macOS. Default: false.",
+        },
+        {
+          name: "wrapWiringGIFs",
+          typeLabel: " ",
+          description:
+            "Pre-2003 only: also save each GIF wiring diagram as a landscape PDF. Default: false.",
+        },
+        {
+          name: "combineWiringPDFs",
+          typeLabel: " ",
+          description:
+            "Also combine the pages of each wiring cell into one PDF, bookmarked by page. Default: false.",
+        },
+        {
+          name: "wiringBookPDF",
+          typeLabel: " ",
+          description:
+            "Also combine every wiring page into one PDF, bookmarked by section. Default: false.",
+        },
+        {
+          name: "paperSize",
+          typeLabel: "{underline svg|a3|tabloid|24inx18in}",
+          description:
+            "Page size for wiring diagram and connector view PDFs: svg to match each diagram's size, " +
+            "or a paper size (letter, legal, tabloid, a4, a3, a2 or WIDTHxHEIGHT in in/mm/cm) to fit them on. " +
+            "Default: landscape Letter, like PTS.",
+        },
+        {
+          name: "wiringPNGs",
+          typeLabel: "{underline 150}",
+          description:
+            "Also save each wiring diagram as a PNG at this many DPI, plus a small thumbnail. " +
+            `The DPI is optional. Default: ${DEFAULT_PNG_DPI}.`,
+        },
         {
           name: "browserMode",
           typeLabel: "{underline managed|remote}",
@@ -149,6 +284,44 @@ export default function processCLIArgs(): CLIArgs {
           description:
             "Remote debugging endpoint to connect to when browserMode is remote. Defaults to http://127.0.0.1:9222.",
         },
+        {
+          name: "pages",
+          typeLabel: "{underline 1}",
+          description:
+            "Number of browser pages to render and save documents with at once. Default: 1.",
+        },
+        {
+          name: "requests",
+          typeLabel: "{underline 1}",
+          description:
+            "Maximum number of requests to PTS in flight at once. Default: 1.",
+        },
+        {
+          name: "rateLimit",
+          typeLabel: "{underline 2}",
+          description:
+            "Maximum requests per second to PTS, shared by all pages and requests. 0 disables the limit (not recommended). Default: 2.",
+        },
+        {
+          name: "plan",
+          typeLabel: " ",
+          description:
+            "Don't download anything: fetch the tables of contents, then print what would be downloaded and estimate how long it would take and how much disk space it needs.",
+        },
+        {
+          name: "include",
+          typeLabel: "{underline pattern} ...",
+          description:
+            "Only download documents matching one of these patterns. A pattern is a glob on the table of contents path " +
+            '(like "307-01*"), a /regex/, docid:{underline id,id}, or for wiring, type:{underline Page,Connectors} or cell:{underline number,number}. ' +
+            "See the README for details.",
+        },
+        {
+          name: "exclude",
+          typeLabel: "{underline pattern} ...",
+          description:
+            "Skip documents matching any of these patterns. Same pattern syntax as include.",
+        },
         {
           name: "help",
           typeLabel: " ",
@@ -192,6 +365,29 @@ export default function processCLIArgs(): CLIArgs {
       process.exit(1);
     }
 
+    for (const name of ["pages", "requests"]) {
+      if (!Number.isInteger(options[name]) || options[name] < 1) {
+        console.error(`${name} must be a whole number of at least 1.`);
+        process.exit(1);
+      }
+    }
+    if (!(options.rateLimit >= 0)) {
+      console.error("rateLimit must be a number of at least 0.");
+      process.exit(1);
+    }
+    if (typeof options.wiringPNGs === "number" && !(options.wiringPNGs > 0)) {
+      console.error("wiringPNGs must be a DPI above 0.");
+      process.exit(1);
+    }
+
+    let filters: DownloadFilters;
+    try {
+      filters = parseFilters(options.include, options.exclude);
+    } catch (e) {
+      console.error(`Invalid include or exclude pattern: ${e}`);
+      process.exit(1);
+    }
+
     return {
       configPath: options.configFile,
       outputPath: options.outputPath,
@@ -202,8 +398,217 @@ export default function processCLIArgs(): CLIArgs {
       doCookieTest: !options.noCookieTest,
       saveHTML: !!options.saveHTML,
       ignoreSaveErrors: !!options.ignoreSaveErrors,
+      caseInsensitivePaths: !!options.caseInsensitivePaths,
+      wrapWiringGIFs: !!options.wrapWiringGIFs,
+      combineWiringPDFs: !!options.combineWiringPDFs,
+      wiringBookPDF: !!options.wiringBookPDF,
+      paperSize: options.paperSize
+        ? parsePaperSize(options.paperSize)
+        : undefined,
+      // --wiringPNGs without a number is null
+      wiringPNGDPI:
+        options.wiringPNGs === undefined
+          ? undefined
+          : options.wiringPNGs || DEFAULT_PNG_DPI,
       browserMode,
       remoteDebuggingUrl: options.remoteDebuggingUrl || "http://127.0.0.1:9222",
+      pageConcurrency: options.pages,
+      requestConcurrency: options.requests,
+      requestsPerSecond: options.rateLimit,
+      filters,
+      planOnly: !!options.plan,
+    };
+  } catch (e: any) {
+    console.error(e);
+    console.log(usage);
+    process.exit(1);
+  }
+}
+
+export interface SearchCLIArgs {
+  outputPath: string;
+  query: string;
+  rebuildIndex: boolean;
+  limit: number;
+}
+
+export function processSearchCLIArgs(argv: string[]): SearchCLIArgs {
+  const optionConfig = [
+    {
+      name: "outputPath",
+      alias: "o",
+      type: String,
+    },
+    {
+      name: "query",
+      type: String,
+      multiple: true,
+      defaultOption: true,
+    },
+    {
+      name: "rebuild",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "limit",
+      alias: "n",
+      type: Number,
+      defaultValue: 20,
+    },
+    {
+      name: "help",
+      type: Boolean,
+    },
+  ];
+
+  const sections = [
+    {
+      header: "Search a downloaded manual",
+      content:
+        "yarn start search -o {underline /path/for/manual} {underline words to search for}",
+    },
+    {
+      header: "Options",
+      optionList: [
+        {
+          name: "outputPath -o",
+          typeLabel: "{underline /path/for/manual}",
+          description:
+            "{bold Required.} Directory the manual was downloaded to.",
+        },
+        {
+          name: "rebuild",
+          typeLabel: " ",
+          description:
+            "Rebuild the search index before searching, for example after downloading more of the manual. " +
+            "The index is built automatically if it doesn't exist yet.",
+        },
+        {
+          name: "limit -n",
+          typeLabel: "{underline 20}",
+          description: "Maximum number of results to show. Default: 20.",
+        },
+        {
+          name: "help",
+          typeLabel: " ",
+          description: "Print this usage guide.",
+        },
+      ],
+    },
+  ];
+
+  const usage = commandLineUsage(sections);
+
+  try {
+    const options = commandLineArgs(optionConfig, { argv });
+    if (options.help) {
+      console.log(usage);
+      process.exit(0);
+    }
+
+    if (!options.outputPath || !options.query?.length) {
+      console.error("Missing required args!");
+      console.log(usage);
+      process.exit(1);
+    }
+
+    return {
+      outputPath: options.outputPath,
+      query: options.query.join(" "),
+      rebuildIndex: !!options.rebuild,
+      limit: options.limit,
+    };
+  } catch (e: any) {
+    console.error(e);
+    console.log(usage);
+    process.exit(1);
+  }
+}
+
+export interface WiringCLIArgs {
+  outputPath: string;
+  query: string;
+  rebuildIndex: boolean;
+}
+
+export function processWiringCLIArgs(argv: string[]): WiringCLIArgs {
+  const optionConfig = [
+    {
+      name: "outputPath",
+      alias: "o",
+      type: String,
+    },
+    {
+      name: "query",
+      type: String,
+      multiple: true,
+      defaultOption: true,
+    },
+    {
+      name: "rebuild",
+      type: Boolean,
+      defaultValue: false,
+    },
+    {
+      name: "help",
+      type: Boolean,
+    },
+  ];
+
+  const sections = [
+    {
+      header: "Look up a circuit, wire colour or component",
+      content: [
+        "yarn start wiring -o {underline /path/for/manual} {underline CBP15}",
+        "yarn start wiring -o {underline /path/for/manual} {underline BK-YE}",
+        "yarn start wiring -o {underline /path/for/manual} {underline fuel pump}",
+      ],
+    },
+    {
+      header: "Options",
+      optionList: [
+        {
+          name: "outputPath -o",
+          typeLabel: "{underline /path/for/manual}",
+          description:
+            "{bold Required.} Directory the wiring diagrams were downloaded to.",
+        },
+        {
+          name: "rebuild",
+          typeLabel: " ",
+          description:
+            "Rebuild the wiring index first, for example after downloading more diagrams. " +
+            "The index is built automatically if it doesn't exist yet.",
+        },
+        {
+          name: "help",
+          typeLabel: " ",
+          description: "Print this usage guide.",
+        },
+      ],
+    },
+  ];
+
+  const usage = commandLineUsage(sections);
+
+  try {
+    const options = commandLineArgs(optionConfig, { argv });
+    if (options.help) {
+      console.log(usage);
+      process.exit(0);
+    }
+
+    if (!options.outputPath || !options.query?.length) {
+      console.error("Missing required args!");
+      console.log(usage);
+      process.exit(1);
+    }
+
+    return {
+      outputPath: options.outputPath,
+      query: options.query.join(" "),
+      rebuildIndex: !!options.rebuild,
     };
   } catch (e: any) {
     console.error(e);
@@ -3,8 +3,35 @@ import { fileExists } from "./utils";
 import { join } from "path";
 import type { FetchManualPageParams } from "./workshop/fetchManualPage";
 
+// A publication on PTS's Workshop tab, like the workshop manual or the
+// body/collision repair manual. The default is the workshop manual.
+export interface PublicationConfig {
+  // Used as the publication's folder name in the output directory
+  name: string;
+  // TreeAndCover category, "32" for the workshop manual
+  category: string;
+  CategoryDescription: string;
+  // URL segments: .../TreeAndCover/{publicationType}/{category}/{bookCode}/{vehicleId}
+  publicationType: string;
+  bookCode: string;
+  // Overrides for the workshop params, if this publication uses its own book
+  book?: string;
+  bookTitle?: string;
+  booktype?: string;
+}
+
+export const DEFAULT_PUBLICATION: PublicationConfig = {
+  name: "Workshop Manual",
+  category: "32",
+  CategoryDescription: "GSIXML",
+  publicationType: "workshop",
+  bookCode: "~WSMX",
+};
+
 export interface Config {
   workshop: FetchManualPageParams;
+  // Optional. When set, each publication is saved to its own folder.
+  publications?: PublicationConfig[];
   wiring: {
     environment: string;
     bookType: string;
@@ -12,6 +39,10 @@ export interface Config {
   };
   pre_2003: {
     alphabeticalIndexURL: string;
+    // Optional. Page listing the GIF wiring diagrams, for legacy wiring mode.
+    wiringIndexURL?: string;
+    // Optional. Sidebar table of contents, crawled for the manual's sections.
+    tocURL?: string;
   };
 }
 
@@ -24,6 +55,14 @@ const WORKSHOP_VALIDATE_FIELDS: (keyof Config["workshop"])[] = [
   "WiringBookTitle",
 ];
 
+const PUBLICATION_REQUIRED_FIELDS: (keyof PublicationConfig)[] = [
+  "name",
+  "category",
+  "CategoryDescription",
+  "publicationType",
+  "bookCode",
+];
+
 const WIRING_VALIDATABLE_FIELDS: (keyof Config["wiring"])[] = ["environment"];
 
 export default async function readConfig(
@@ -84,6 +123,35 @@ export default async function readConfig(
     }
   }
 
+  if (params.publications) {
+    if (!Array.isArray(params.publications) || !params.publications.length) {
+      console.error(
+        "publications must be a list with at least one publication, or left out entirely"
+      );
+      paramsValid = false;
+    }
+
+    const names = new Set<string>();
+    for (const [i, publication] of (params.publications || []).entries()) {
+      for (const field of PUBLICATION_REQUIRED_FIELDS) {
+        if (!publication[field] || typeof publication[field] !== "string") {
+          console.error(
+            `Invalid or missing field ${field} in publication ${i}`
+          );
+          paramsValid = false;
+        }
+      }
+
+      if (names.has(publication.name)) {
+        console.error(
+          `Publication name ${publication.name} is used more than once, they'd be saved to the same folder`
+        );
+        paramsValid = false;
+      }
+      names.add(publication.name);
+    }
+  }
+
   if (
     ws.modelYear &&
     parseInt(ws.modelYear) < 2003 &&
@@ -96,6 +164,23 @@ export default async function readConfig(
     paramsValid = false;
   }
 
+  if (
+    params.pre_2003.wiringIndexURL &&
+    !params.pre_2003.wiringIndexURL.startsWith("http")
+  ) {
+    console.error(
+      "pre_2003.wiringIndexURL should be a full URL, or left empty to skip GIF wiring diagrams."
+    );
+    paramsValid = false;
+  }
+
+  if (params.pre_2003.tocURL && !params.pre_2003.tocURL.startsWith("http")) {
+    console.error(
+      "pre_2003.tocURL should be a full URL, or left empty to only use the alphabetical index."
+    );
+    paramsValid = false;
+  }
+
   if (!paramsValid) {
     console.error(
       "\nErrors were found in your config file. Please fix them and try again.\n" +
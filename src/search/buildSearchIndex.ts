@@ -0,0 +1,319 @@
+import { readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { JSDOM } from "jsdom";
+import { fileExists, sanitizeName } from "../utils";
+import {
+  getRecordedFiles,
+  getRecordedPaths,
+  readOutputPaths,
+  RecordedOutputPaths,
+} from "../outputPaths";
+import {
+  getDocumentExtension,
+  getDocumentKind,
+  planWorkshopPaths,
+  workshopPathKey,
+  workshopPathsGroup,
+} from "../workshop/documentPaths";
+import {
+  readSavedConnectors,
+  readSavedWiringPages,
+  readWiringTableOfContents,
+} from "../wiring/savedWiring";
+import { extractSvgText } from "../wiring/svgText";
+import type { LegacyWiringTableOfContentsEntry } from "../pre-2003/saveLegacyWiring";
+import {
+  ALPHABETICAL_INDEX_FILENAME,
+  Pre2003AlphabeticalIndex,
+} from "../pre-2003/fetchAlphabeticalIndex";
+import {
+  flattenPre2003TableOfContents,
+  pre2003HrefKey,
+  PRE2003_TOC_FILENAME,
+} from "../pre-2003/fetchTableOfContents";
+import {
+  planPre2003Paths,
+  PRE2003_PATHS_GROUP,
+} from "../pre-2003/saveEntireTableOfContents";
+import {
+  SEARCH_INDEX_FILENAME,
+  SearchDocument,
+  SearchIndex,
+  tokenize,
+} from "./searchIndex";
+
+type AddDocument = (document: SearchDocument, text: string) => void;
+
+const readJSON = async (path: string): Promise<any> =>
+  JSON.parse(await readFile(path, { encoding: "utf-8" }));
+
+function htmlToText(html: string): string {
+  const { document } = new JSDOM(html).window;
+  document.querySelectorAll("script, style").forEach((el) => el.remove());
+  return document.body?.textContent || "";
+}
+
+// Indexes the workshop manual saved in `folder` (relative to the output
+// directory), which is "" unless params.json lists publications.
+async function indexWorkshop(
+  outputPath: string,
+  folder: string,
+  recordedPaths: RecordedOutputPaths,
+  add: AddDocument
+) {
+  const tocPath = join(outputPath, folder, "toc.json");
+  if (!(await fileExists(tocPath))) {
+    return;
+  }
+
+  const toc = await readJSON(tocPath);
+  // Where saveEntireManual saved to, relative to the output directory
+  const paths = getRecordedPaths(
+    recordedPaths,
+    workshopPathsGroup(folder),
+    planWorkshopPaths(toc, folder)
+  );
+  const savedFiles = getRecordedFiles(
+    "",
+    recordedPaths,
+    workshopPathsGroup(folder)
+  );
+
+  const walk = async (branch: any, path: string[]) => {
+    for (const [name, docID] of Object.entries(branch)) {
+      if (typeof docID !== "string" || docID.length === 0) {
+        await walk(docID, [...path, name]);
+        continue;
+      }
+
+      // Relative-path files named after their Content-Type are only known
+      // from what paths.json recorded
+      const key = workshopPathKey([...path, name]);
+      const filePath = paths.get(key)!;
+      const savedFile = savedFiles.get(key);
+      const extension =
+        getDocumentExtension(docID) ??
+        (savedFile?.startsWith(filePath)
+          ? savedFile.slice(filePath.length)
+          : undefined);
+      if (extension === undefined) {
+        continue;
+      }
+
+      const document: SearchDocument = {
+        type: "workshop",
+        title: name,
+        tocPath: [...(folder ? [folder] : []), ...path, name],
+        docID,
+        file: filePath + extension,
+      };
+
+      // Page text is only available if the manual was saved with --saveHTML
+      const htmlFile =
+        getDocumentKind(docID) === "page"
+          ? `${filePath}.html`
+          : /^\.html?$/.test(extension)
+          ? document.file
+          : undefined;
+      const text =
+        htmlFile && (await fileExists(join(outputPath, htmlFile)))
+          ? htmlToText(
+              await readFile(join(outputPath, htmlFile), { encoding: "utf-8" })
+            )
+          : "";
+      add(document, text);
+    }
+  };
+
+  await walk(toc, []);
+}
+
+// Indexes a pre-2003 manual, saved in the output directory by its table
+// of contents (if it was crawled) and its alphabetical index
+async function indexPre2003Workshop(
+  outputPath: string,
+  recordedPaths: RecordedOutputPaths,
+  add: AddDocument
+) {
+  // earlier runs saved the table of contents as toc.json
+  let tocPath = join(outputPath, PRE2003_TOC_FILENAME);
+  if (!(await fileExists(tocPath))) {
+    tocPath = join(outputPath, "toc.json");
+  }
+  const tocDocuments = (await fileExists(tocPath))
+    ? flattenPre2003TableOfContents(await readJSON(tocPath))
+    : [];
+  // Where saveEntirePre2003TableOfContents saved to, relative to the
+  // output directory
+  const paths = getRecordedPaths(
+    recordedPaths,
+    PRE2003_PATHS_GROUP,
+    planPre2003Paths(tocDocuments, "")
+  );
+
+  const documents = tocDocuments.map((document) => ({
+    ...document,
+    path: paths.get(document.href)!,
+  }));
+  // Pages only in the alphabetical index are saved in the top folder
+  const seen = new Set(tocDocuments.map(({ href }) => pre2003HrefKey(href)));
+  const alphabeticalIndex: Pre2003AlphabeticalIndex = await readJSON(
+    join(outputPath, ALPHABETICAL_INDEX_FILENAME)
+  );
+  for (const document of alphabeticalIndex) {
+    if (!seen.has(pre2003HrefKey(document.href))) {
+      seen.add(pre2003HrefKey(document.href));
+      const path = sanitizeName(document.title);
+      documents.push({ ...document, tocPath: [document.title], path });
+    }
+  }
+
+  for (const { href, title, tocPath, path } of documents) {
+    // only HTML pages are saved, as a PDF and with --saveHTML as HTML too
+    const pdfFile = `${path}.pdf`;
+    if (!(await fileExists(join(outputPath, pdfFile)))) {
+      continue;
+    }
+
+    const htmlFile = join(outputPath, `${path}.html`);
+    const text = (await fileExists(htmlFile))
+      ? htmlToText(await readFile(htmlFile, { encoding: "utf-8" }))
+      : "";
+    add({ type: "workshop", title, tocPath, docID: href, file: pdfFile }, text);
+  }
+}
+
+// Publications listed in params.json are saved to their own folders,
+// next to the Wiring folder
+async function indexPublications(
+  outputPath: string,
+  recordedPaths: RecordedOutputPaths,
+  add: AddDocument
+) {
+  const entries = await readdir(outputPath, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.isDirectory() && entry.name !== "Wiring") {
+      await indexWorkshop(outputPath, entry.name, recordedPaths, add);
+    }
+  }
+}
+
+async function indexWiring(
+  outputPath: string,
+  recordedPaths: RecordedOutputPaths,
+  add: AddDocument
+) {
+  const tocPath = join(outputPath, "Wiring", "toc.json");
+  if (!(await fileExists(tocPath))) {
+    return;
+  }
+
+  const toc = await readWiringTableOfContents(outputPath);
+
+  // Pre-2003 GIF diagrams only have their titles to go by
+  if (!toc) {
+    const legacyToc: LegacyWiringTableOfContentsEntry[] = await readJSON(
+      tocPath
+    );
+    for (const entry of legacyToc) {
+      add(
+        {
+          type: "wiring",
+          title: entry.title,
+          tocPath: ["Wiring", entry.title],
+          docID: entry.href,
+          file: join("Wiring", `${entry.file}.gif`),
+        },
+        ""
+      );
+    }
+    return;
+  }
+
+  for (const page of await readSavedWiringPages(
+    outputPath,
+    toc,
+    recordedPaths
+  )) {
+    const svg = await readFile(join(outputPath, page.svgFile), {
+      encoding: "utf-8",
+    });
+
+    add(
+      {
+        type: "wiring",
+        title: `${page.section.Title} - ${page.pageName}`,
+        tocPath: ["Wiring", page.section.Title, page.pageName],
+        docID: page.section.Number,
+        file: page.pdfFile,
+      },
+      extractSvgText(svg).join(" ")
+    );
+  }
+
+  for (const { connector, file } of await readSavedConnectors(
+    outputPath,
+    recordedPaths
+  )) {
+    add(
+      {
+        type: "connector",
+        title: `${connector.Name} ${connector.Desc}`,
+        tocPath: ["Wiring", "Connector Views", connector.Name],
+        docID: connector.Name,
+        file: `${file}.pdf`,
+      },
+      connector.Desc
+    );
+  }
+}
+
+/**
+ * Extracts the text from the downloaded workshop pages, wiring diagrams and
+ * connector list, and writes it as an inverted index to search-index.json
+ * in the output directory.
+ */
+export default async function buildSearchIndex(
+  outputPath: string
+): Promise<SearchIndex> {
+  const index: SearchIndex = { documents: [], terms: {} };
+
+  const add: AddDocument = (document, text) => {
+    const docIndex = index.documents.push(document) - 1;
+
+    const counts = new Map<string, number>();
+    // Index where the document is as well, so "307-01 pump" finds the pump
+    // procedures in section 307-01.
+    const location = document.tocPath.slice(0, -1).join(" ");
+    for (const term of tokenize(
+      `${document.title} ${location} ${document.docID} ${text}`
+    )) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    counts.forEach((count, term) => {
+      // terms like "constructor" would otherwise hit Object.prototype
+      if (!Object.prototype.hasOwnProperty.call(index.terms, term)) {
+        index.terms[term] = [];
+      }
+      index.terms[term].push([docIndex, count]);
+    });
+  };
+
+  const recordedPaths = await readOutputPaths(outputPath);
+  // only pre-2003 manuals have an alphabetical index
+  if (await fileExists(join(outputPath, ALPHABETICAL_INDEX_FILENAME))) {
+    await indexPre2003Workshop(outputPath, recordedPaths, add);
+  } else {
+    await indexWorkshop(outputPath, "", recordedPaths, add);
+  }
+  await indexPublications(outputPath, recordedPaths, add);
+  await indexWiring(outputPath, recordedPaths, add);
+
+  await writeFile(
+    join(outputPath, SEARCH_INDEX_FILENAME),
+    JSON.stringify(index)
+  );
+
+  return index;
+}
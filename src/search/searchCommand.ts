@@ -0,0 +1,46 @@
+import { join } from "path";
+import { fileExists } from "../utils";
+import type { SearchCLIArgs } from "../processCLIArgs";
+import buildSearchIndex from "./buildSearchIndex";
+import {
+  readSearchIndex,
+  search,
+  SEARCH_INDEX_FILENAME,
+  SearchIndex,
+} from "./searchIndex";
+
+export default async function searchCommand({
+  outputPath,
+  query,
+  rebuildIndex,
+  limit,
+}: SearchCLIArgs) {
+  let index: SearchIndex;
+  if (
+    rebuildIndex ||
+    !(await fileExists(join(outputPath, SEARCH_INDEX_FILENAME)))
+  ) {
+    console.log("Building search index...");
+    index = await buildSearchIndex(outputPath);
+  } else {
+    index = await readSearchIndex(outputPath);
+  }
+
+  const results = search(index, query);
+  if (!results.length) {
+    console.log(`No results for "${query}".`);
+    return;
+  }
+
+  console.log(
+    `${results.length} results for "${query}"${
+      results.length > limit ? `, showing the first ${limit}` : ""
+    }:\n`
+  );
+
+  for (const { document } of results.slice(0, limit)) {
+    console.log(document.tocPath.join(" > "));
+    console.log(`  ${document.type} ${document.docID}`);
+    console.log(`  ${join(outputPath, document.file)}\n`);
+  }
+}
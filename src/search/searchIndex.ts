@@ -0,0 +1,105 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+export const SEARCH_INDEX_FILENAME = "search-index.json";
+
+export type SearchDocumentType = "workshop" | "wiring" | "connector";
+
+export interface SearchDocument {
+  type: SearchDocumentType;
+  title: string;
+  // Where the document is in the table of contents, from the top
+  tocPath: string[];
+  // Workshop docID, wiring cell number or connector ID
+  docID: string;
+  // File to open, relative to the output directory
+  file: string;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // Inverted index: term -> [document index, number of occurrences] pairs
+  terms: { [term: string]: [number, number][] };
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+// Words are kept whole with their dashes and dots (307-01, 5.0L, C1147)
+// as well as split up, so "307-01" and "307" both find "307-01".
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+(?:[-.][\p{L}\p{N}]+)*/gu);
+
+  for (const word of words || []) {
+    tokens.push(word);
+    if (/[-.]/.test(word)) {
+      tokens.push(...word.split(/[-.]/));
+    }
+  }
+
+  return tokens;
+}
+
+export async function readSearchIndex(
+  outputPath: string
+): Promise<SearchIndex> {
+  return JSON.parse(
+    await readFile(join(outputPath, SEARCH_INDEX_FILENAME), {
+      encoding: "utf-8",
+    })
+  );
+}
+
+/**
+ * Finds documents containing every word in the query, best matches first.
+ * Matches in titles count for more than matches in the body.
+ */
+export function search(index: SearchIndex, query: string): SearchResult[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (!queryTerms.length) {
+    return [];
+  }
+
+  let scores: Map<number, number> | undefined;
+
+  for (const term of queryTerms) {
+    const termScores = new Map<number, number>();
+    const postings = Object.prototype.hasOwnProperty.call(index.terms, term)
+      ? index.terms[term]
+      : [];
+    for (const [docIndex, count] of postings) {
+      termScores.set(docIndex, count);
+    }
+
+    if (!scores) {
+      scores = termScores;
+      continue;
+    }
+
+    // documents must match every term
+    const intersection = new Map<number, number>();
+    scores.forEach((score, docIndex) => {
+      const termScore = termScores.get(docIndex);
+      if (termScore !== undefined) {
+        intersection.set(docIndex, score + termScore);
+      }
+    });
+    scores = intersection;
+  }
+
+  const results: SearchResult[] = [];
+  scores!.forEach((score, docIndex) => {
+    const document = index.documents[docIndex];
+    const titleTerms = tokenize(document.title);
+    const titleMatches = queryTerms.filter((t) => titleTerms.includes(t));
+
+    results.push({ document, score: score + titleMatches.length * 10 });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -1,7 +1,10 @@
-import { access } from "fs/promises";
+import { access, open } from "fs/promises";
 import { constants, createWriteStream } from "fs";
 import { type as osType } from "os";
 
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
 export async function fileExists(path: string): Promise<boolean> {
   try {
     await access(path, constants.R_OK | constants.W_OK);
@@ -43,3 +46,29 @@ export default function saveStream(stream: any, path: string): Promise<void> {
     });
   });
 }
+
+// Checks a file's first bytes, like "%PDF-" for PDFs. Error pages and
+// login redirects don't start with them.
+export async function hasSignature(
+  path: string,
+  signature: string
+): Promise<boolean> {
+  const file = await open(path, "r");
+  try {
+    const { buffer, bytesRead } = await file.read(
+      Buffer.alloc(signature.length),
+      0,
+      signature.length,
+      0
+    );
+    return buffer.toString("latin1", 0, bytesRead) === signature;
+  } finally {
+    await file.close();
+  }
+}
+
+export const hasPDFSignature = (path: string): Promise<boolean> =>
+  hasSignature(path, "%PDF-");
+
+export const hasGIFSignature = (path: string): Promise<boolean> =>
+  hasSignature(path, "GIF8");
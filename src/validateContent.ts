@@ -0,0 +1,205 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { JSDOM } from "jsdom";
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, RetryPolicy } from "./client";
+import { isAuthURL, PTSError } from "./errors";
+import { hasSignature, sleep } from "./utils";
+
+// Documents whose content is checked before they're saved
+export type ContentKind =
+  | "workshopPage"
+  | "pre2003Page"
+  | "wiringSvg"
+  | "relativePathPage";
+
+interface ContentCheck {
+  // Pages with less text than this are empty, or an error
+  minTextLength: number;
+  // Every real document has at least one of these
+  structure: string;
+}
+
+const CONTENT_CHECKS: { [kind in ContentKind]: ContentCheck } = {
+  workshopPage: {
+    minTextLength: 50,
+    structure: "body table, body div, body p",
+  },
+  // some are just a figure and its caption
+  pre2003Page: {
+    minTextLength: 20,
+    structure: "body table, body p, body pre, body img",
+  },
+  // some diagrams have very little text
+  wiringSvg: {
+    minTextLength: 0,
+    structure: "svg",
+  },
+  // files a manual links to, which can be anything from a frameset to a
+  // single image
+  relativePathPage: {
+    minTextLength: 0,
+    structure: "body *, frameset",
+  },
+};
+
+// Login and session expired pages, for when PTS sends one instead of
+// redirecting to it
+const LOGIN_SELECTOR =
+  "input[type=password], form[action*=login i], form[action*=signin i], form[action*=logon i]";
+const LOGIN_TEXT_REGEX =
+  /session (?:has )?(?:expired|timed out)|subscription (?:has )?expired|please (?:log|sign) ?in\b/i;
+
+// Error pages from PTS and the servers in front of it
+const ERROR_TEXT_REGEX =
+  /an error (?:has )?occurred|server error|internal error|service unavailable|page cannot be (?:found|displayed)|page not found|object reference not set/i;
+
+// What Akamai sends when it thinks we're a bot
+const BOT_BLOCKED_TEXT_REGEX = /access denied/i;
+
+// Procedures can mention errors and signing in too, so it's the title and
+// headings that are checked for those messages. Only pages with next to no
+// text are checked all over, and then never taken for a login page or a
+// block, since those stop the whole run.
+const NEAR_EMPTY_PAGE_LENGTH = 200;
+
+/**
+ * Throws if `content` isn't a real `kind` document: a login page is an
+ * auth error (so the run stops, and can be resumed with new cookies), and
+ * an error page, an empty page or one missing the usual elements is
+ * invalidContent. `url` is where it ended up, if it was opened in a browser.
+ */
+export function validateContent(
+  content: string,
+  kind: ContentKind,
+  description: string,
+  url?: string
+): void {
+  const check = CONTENT_CHECKS[kind];
+
+  if (url && /^https?:/.test(url) && isAuthURL(url)) {
+    throw new PTSError("auth", `${description} redirected to a login page`);
+  }
+
+  const { document } = new JSDOM(content).window;
+  document.querySelectorAll("script, style").forEach((el) => el.remove());
+  const text = (document.body?.textContent || "").replace(/\s+/g, " ").trim();
+  const headings = Array.from(
+    document.querySelectorAll("title, h1, h2, h3"),
+    (el) => el.textContent || ""
+  ).join(" ");
+
+  if (
+    document.querySelector(LOGIN_SELECTOR) ||
+    LOGIN_TEXT_REGEX.test(headings)
+  ) {
+    throw new PTSError("auth", `${description} is a login page`);
+  }
+  if (BOT_BLOCKED_TEXT_REGEX.test(headings)) {
+    throw new PTSError("botBlocked", `${description} is an access denied page`);
+  }
+  if (ERROR_TEXT_REGEX.test(headings)) {
+    throw new PTSError(
+      "invalidContent",
+      `${description} is an error page: ${headings.trim().slice(0, 200)}`
+    );
+  }
+  if (
+    text.length < NEAR_EMPTY_PAGE_LENGTH &&
+    [LOGIN_TEXT_REGEX, BOT_BLOCKED_TEXT_REGEX, ERROR_TEXT_REGEX].some((regex) =>
+      regex.test(text)
+    )
+  ) {
+    throw new PTSError(
+      "invalidContent",
+      `${description} looks like an error page: ${text}`
+    );
+  }
+  if (text.length < check.minTextLength) {
+    throw new PTSError(
+      "invalidContent",
+      `${description} is empty (${text.length} characters of text)`
+    );
+  }
+  if (!document.querySelector(check.structure)) {
+    throw new PTSError(
+      "invalidContent",
+      `${description} is missing the elements every page has (${check.structure})`
+    );
+  }
+}
+
+// How each kind of binary file starts. Error pages don't.
+const FILE_SIGNATURES: { [extension: string]: string } = {
+  ".pdf": "%PDF-",
+  ".gif": "GIF8",
+  ".png": "\x89PNG",
+  ".jpg": "\xff\xd8\xff",
+  ".jpeg": "\xff\xd8\xff",
+};
+
+/**
+ * Throws if the file at `path` isn't what its extension says: HTML is
+ * checked like a page, and PDFs and images by their first bytes. Other
+ * files can't be checked.
+ */
+export async function validateFile(
+  path: string,
+  description: string
+): Promise<void> {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".html" || extension === ".htm") {
+    validateContent(
+      await readFile(path, { encoding: "utf-8" }),
+      "relativePathPage",
+      description
+    );
+  } else if (
+    FILE_SIGNATURES[extension] &&
+    !(await hasSignature(path, FILE_SIGNATURES[extension]))
+  ) {
+    throw new PTSError(
+      "invalidContent",
+      `${description} isn't a ${extension.slice(1).toUpperCase()} file.`
+    );
+  }
+}
+
+// Error pages are usually a hiccup on Ford's end, so they get a few tries
+const CONTENT_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 3,
+};
+
+/**
+ * Runs `attempt` (which fetches a document and calls validateContent)
+ * until its content is valid, backing off between tries. Other errors,
+ * and invalid content on the last try, are thrown.
+ */
+export async function retryInvalidContent<T>(
+  description: string,
+  attempt: () => Promise<T>
+): Promise<T> {
+  for (let n = 1; ; n++) {
+    try {
+      return await attempt();
+    } catch (e) {
+      if (
+        !(e instanceof PTSError) ||
+        e.category !== "invalidContent" ||
+        n >= CONTENT_RETRY_POLICY.maxAttempts
+      ) {
+        throw e;
+      }
+
+      const delay = getBackoffDelay(CONTENT_RETRY_POLICY, n);
+      console.error(
+        `${description} wasn't what we expected (${
+          e.message.split("\n")[0]
+        }), retrying in ${Math.round(delay / 1000)}s (attempt ${n + 1} of ${
+          CONTENT_RETRY_POLICY.maxAttempts
+        })...`
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { fileExists } from "../utils";
+import { readOutputPaths } from "../outputPaths";
+import {
+  readSavedConnectors,
+  readSavedWiringPages,
+  readWiringTableOfContents,
+} from "./savedWiring";
+import { extractSvgText } from "./svgText";
+import { LOC_INDEX_JSON_FILENAME, SavedLocIndexEntry } from "./saveLocIndex";
+import type { ConnectorPinout } from "./connectorPinouts";
+
+export const CONNECTOR_DATABASE_FILENAME = "connector-database.jsonl";
+
+export interface ConnectorLocation {
+  // Which engine/configuration this location is for, like "3.5L"
+  qualifier: string;
+  location: string;
+  gridReference: string;
+  // Page of the Component Location Charts
+  locationPage: number | null;
+}
+
+export interface DiagramMention {
+  cell: string;
+  section: string;
+  page: string;
+  file: string;
+}
+
+// One line of connector-database.jsonl. Paths are relative to the output directory.
+export interface ConnectorDatabaseItem {
+  // Like C1147, S123 or G101
+  id: string;
+  // connector, splice, ground, harness or component
+  type: string;
+  description: string;
+  locations: ConnectorLocation[];
+  faceView: { pdf: string; pinout: string | null } | null;
+  pinCount: number | null;
+  // Diagram pages whose text mentions the ID
+  mentionedOn: DiagramMention[];
+}
+
+const readJSON = async (path: string): Promise<any> =>
+  JSON.parse(await readFile(path, { encoding: "utf-8" }));
+
+// IDs on diagrams are letters and digits, so split on everything else
+const wordsOf = (text: string): string[] =>
+  text.toUpperCase().match(/[A-Z0-9]+/g) || [];
+
+/**
+ * Joins connectors.json, the location index (locIndex.json) and the saved
+ * pin-outs into one record per connector, splice, ground and harness, then
+ * finds the diagram pages that mention each one. Written to
+ * Wiring/connector-database.jsonl, one JSON object per line.
+ *
+ * Returns the number of items, or undefined if there's no wiring download.
+ */
+export default async function buildConnectorDatabase(
+  outputPath: string
+): Promise<number | undefined> {
+  const toc = await readWiringTableOfContents(outputPath);
+  if (!toc) {
+    return undefined;
+  }
+
+  const recordedPaths = await readOutputPaths(outputPath);
+  const items = new Map<string, ConnectorDatabaseItem>();
+  const getItem = (id: string, type: string): ConnectorDatabaseItem => {
+    let item = items.get(id.toUpperCase());
+    if (!item) {
+      item = {
+        id,
+        type,
+        description: "",
+        locations: [],
+        faceView: null,
+        pinCount: null,
+        mentionedOn: [],
+      };
+      items.set(id.toUpperCase(), item);
+    }
+    return item;
+  };
+
+  for (const folder of [join("Wiring", "Connector Views"), "Wiring"]) {
+    const locIndexPath = join(outputPath, folder, LOC_INDEX_JSON_FILENAME);
+    if (!(await fileExists(locIndexPath))) {
+      continue;
+    }
+
+    const entries: SavedLocIndexEntry[] = await readJSON(locIndexPath);
+    for (const entry of entries) {
+      if (!entry.Item) {
+        continue;
+      }
+
+      const item = getItem(entry.Item, entry.componentType.toLowerCase());
+      item.locations.push({
+        qualifier: entry.Qual || "",
+        location: entry.LocationDesc || "",
+        gridReference: entry.GridRef || "",
+        locationPage: entry.Page ?? null,
+      });
+    }
+  }
+
+  for (const { connector, file } of await readSavedConnectors(
+    outputPath,
+    recordedPaths
+  )) {
+    const item = getItem(connector.Name, "connector");
+    item.description = connector.Desc;
+
+    if (!(await fileExists(join(outputPath, `${file}.pdf`)))) {
+      continue;
+    }
+
+    const pinoutFile = `${file}.json`;
+    const hasPinout = await fileExists(join(outputPath, pinoutFile));
+    item.faceView = {
+      pdf: `${file}.pdf`,
+      pinout: hasPinout ? pinoutFile : null,
+    };
+    if (hasPinout) {
+      const pinout: ConnectorPinout = await readJSON(
+        join(outputPath, pinoutFile)
+      );
+      item.pinCount = pinout.pins.length;
+    }
+  }
+
+  for (const page of await readSavedWiringPages(
+    outputPath,
+    toc,
+    recordedPaths
+  )) {
+    const svg = await readFile(join(outputPath, page.svgFile), {
+      encoding: "utf-8",
+    });
+
+    const mentioned = new Set<string>();
+    for (const word of wordsOf(extractSvgText(svg).join(" "))) {
+      if (items.has(word)) {
+        mentioned.add(word);
+      }
+    }
+
+    mentioned.forEach((id) =>
+      items.get(id)!.mentionedOn.push({
+        cell: page.section.Number,
+        section: page.section.Title,
+        page: page.pageName,
+        file: page.pdfFile,
+      })
+    );
+  }
+
+  const lines = Array.from(items.values())
+    .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }))
+    .map((item) => JSON.stringify(item));
+  await writeFile(
+    join(outputPath, "Wiring", CONNECTOR_DATABASE_FILENAME),
+    lines.join("\n") + "\n"
+  );
+
+  return items.size;
+}
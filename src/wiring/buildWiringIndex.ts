@@ -0,0 +1,113 @@
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { fileExists } from "../utils";
+import { readOutputPaths } from "../outputPaths";
+import { readSavedWiringPages, readWiringTableOfContents } from "./savedWiring";
+import { extractSvgText } from "./svgText";
+import { extractWiringTerms, WiringTerms } from "./wiringTerms";
+
+export const WIRING_INDEX_FILENAME = "wiring-index.json";
+
+// Paths are relative to the output directory
+export interface WiringIndexPage {
+  cell: string;
+  section: string;
+  page: string;
+  file: string;
+}
+
+export interface WiringIndex {
+  pages: WiringIndexPage[];
+  // Indexes into pages
+  circuits: { [circuit: string]: { wireColors: string[]; pages: number[] } };
+  wireColors: { [color: string]: string[] };
+  components: { [name: string]: number[] };
+}
+
+/**
+ * Indexes the circuits, wire colours and components on every saved wiring
+ * page, from the .terms.json saved next to each SVG. Pages saved before
+ * those existed are read from the SVG instead. Written to
+ * Wiring/wiring-index.json.
+ *
+ * Returns undefined if there's no wiring download.
+ */
+export default async function buildWiringIndex(
+  outputPath: string
+): Promise<WiringIndex | undefined> {
+  const toc = await readWiringTableOfContents(outputPath);
+  if (!toc) {
+    return undefined;
+  }
+
+  const index: WiringIndex = {
+    pages: [],
+    circuits: {},
+    wireColors: {},
+    components: {},
+  };
+
+  for (const page of await readSavedWiringPages(
+    outputPath,
+    toc,
+    await readOutputPaths(outputPath)
+  )) {
+    const termsPath = join(outputPath, page.termsFile);
+    const terms: WiringTerms = (await fileExists(termsPath))
+      ? JSON.parse(await readFile(termsPath, { encoding: "utf-8" }))
+      : extractWiringTerms(
+          extractSvgText(
+            await readFile(join(outputPath, page.svgFile), {
+              encoding: "utf-8",
+            })
+          )
+        );
+
+    const pageIndex = index.pages.length;
+    index.pages.push({
+      cell: page.section.Number,
+      section: page.section.Title,
+      page: page.pageName,
+      file: page.pdfFile,
+    });
+
+    for (const circuit of terms.circuits) {
+      index.circuits[circuit] ??= { wireColors: [], pages: [] };
+      index.circuits[circuit].pages.push(pageIndex);
+    }
+
+    for (const [circuit, color] of Object.entries(terms.wireColors)) {
+      const { wireColors } = index.circuits[circuit];
+      if (!wireColors.includes(color)) {
+        wireColors.push(color);
+      }
+
+      index.wireColors[color] ??= [];
+      if (!index.wireColors[color].includes(circuit)) {
+        index.wireColors[color].push(circuit);
+      }
+    }
+
+    for (const component of terms.components) {
+      index.components[component] ??= [];
+      index.components[component].push(pageIndex);
+    }
+  }
+
+  await writeFile(
+    join(outputPath, "Wiring", WIRING_INDEX_FILENAME),
+    JSON.stringify(index)
+  );
+
+  return index;
+}
+
+export async function readWiringIndex(
+  outputPath: string
+): Promise<WiringIndex> {
+  return JSON.parse(
+    await readFile(join(outputPath, "Wiring", WIRING_INDEX_FILENAME), {
+      encoding: "utf-8",
+    })
+  );
+}
@@ -0,0 +1,321 @@
+import { readFile, writeFile } from "fs/promises";
+import { join, relative, sep } from "path";
+import { fileExists } from "../utils";
+import { readOutputPaths } from "../outputPaths";
+import { readSavedWiringPages, readWiringTableOfContents } from "./savedWiring";
+import {
+  CONNECTOR_DATABASE_FILENAME,
+  ConnectorDatabaseItem,
+} from "./buildConnectorDatabase";
+import type { SvgHotspot } from "./svgHotspots";
+import { escapeHTML, toHref } from "../workshop/saveIndexPage";
+
+export const VIEWER_FILENAME = "viewer.html";
+// The viewer's data is loaded with a <script> tag rather than fetch(),
+// which browsers don't allow for file:// pages
+const VIEWER_DATA_FILENAME = "viewer-data.js";
+
+interface ViewerPage {
+  cell: string;
+  section: string;
+  page: string;
+  // Relative to the Wiring folder, already URL encoded
+  svg: string;
+  pdf: string;
+  // Only if PNGs were saved with --wiringPNGs
+  thumbnail: string | null;
+  hotspots: SvgHotspot[];
+}
+
+type ViewerItem = Omit<ConnectorDatabaseItem, "faceView" | "mentionedOn"> & {
+  faceView: string | null;
+  // Indexes into pages
+  mentionedOn: number[];
+};
+
+// Output-directory-relative path to a URL relative to the Wiring folder
+const wiringHref = (path: string): string =>
+  toHref(relative("Wiring", path).split(sep));
+
+const STYLE = `
+body { margin: 0; display: flex; height: 100vh; font-family: sans-serif; font-size: 14px; }
+nav { width: 20%; min-width: 200px; overflow: auto; border-right: 1px solid #ccc; padding: 8px; box-sizing: border-box; }
+main { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+aside { width: 25%; min-width: 250px; overflow: auto; border-left: 1px solid #ccc; padding: 8px; box-sizing: border-box; }
+#title { padding: 8px; border-bottom: 1px solid #ccc; min-height: 1em; }
+#viewport { flex: 1; overflow: hidden; position: relative; cursor: grab; background: #eee; }
+#drawing { position: absolute; transform-origin: 0 0; }
+#drawing img { display: block; user-select: none; -webkit-user-drag: none; }
+.hotspot { position: absolute; cursor: pointer; background: rgba(255, 200, 0, 0.25); outline: 1px solid rgba(255, 150, 0, 0.6); }
+.hotspot.selected { background: rgba(0, 120, 255, 0.35); }
+ul { list-style: none; padding-left: 16px; margin: 0; }
+summary { cursor: pointer; }
+a { text-decoration: none; cursor: pointer; }
+a.active { font-weight: bold; }
+img.thumb { display: block; width: 160px; margin: 2px 0 6px; border: 1px solid #ccc; }
+iframe { width: 100%; height: 300px; border: 1px solid #ccc; }
+`;
+
+// Shows one diagram at a time. Scroll to zoom, drag to pan, click an
+// outlined ID to see its face view, location and the other pages it's on.
+const SCRIPT = `
+const { pages, items } = window.WIRING_VIEWER;
+const viewport = document.getElementById("viewport");
+const drawing = document.getElementById("drawing");
+const info = document.getElementById("info");
+const links = Array.from(document.querySelectorAll("nav a"));
+let view = { x: 0, y: 0, scale: 1 };
+let current = -1;
+
+function el(tag, text, attrs) {
+  const e = document.createElement(tag);
+  if (text) e.textContent = text;
+  Object.assign(e, attrs || {});
+  return e;
+}
+
+function applyView() {
+  drawing.style.transform = "translate(" + view.x + "px, " + view.y + "px) scale(" + view.scale + ")";
+}
+
+function fit(img) {
+  const scale = Math.min(viewport.clientWidth / img.naturalWidth, viewport.clientHeight / img.naturalHeight);
+  view = { x: 0, y: 0, scale: scale || 1 };
+  applyView();
+}
+
+function showPage(index, id) {
+  const page = pages[index];
+  current = index;
+  links.forEach((l) => l.classList.toggle("active", Number(l.dataset.page) === index));
+  const link = links.find((l) => Number(l.dataset.page) === index);
+  for (let e = link && link.parentElement; e; e = e.parentElement) {
+    if (e.tagName === "DETAILS") e.open = true;
+  }
+  const title = document.getElementById("title");
+  title.replaceChildren(page.cell + " " + page.section + " \\u203a " + page.page + " ");
+  title.appendChild(el("a", "PDF", { href: page.pdf, target: "_blank" }));
+  history.replaceState(null, "", "#" + index + (id ? "/" + id : ""));
+
+  drawing.replaceChildren();
+  const img = el("img", "", { src: page.svg, draggable: false });
+  img.addEventListener("load", () => {
+    img.width = img.naturalWidth;
+    img.height = img.naturalHeight;
+    fit(img);
+  });
+  drawing.appendChild(img);
+  for (const spot of page.hotspots) {
+    const div = el("div", "", { className: "hotspot", title: spot.id });
+    div.dataset.id = spot.id;
+    div.style.left = spot.x * 100 + "%";
+    div.style.top = spot.y * 100 + "%";
+    div.style.width = spot.width * 100 + "%";
+    div.style.height = spot.height * 100 + "%";
+    div.addEventListener("click", (e) => {
+      e.stopPropagation();
+      showItem(spot.id);
+    });
+    drawing.appendChild(div);
+  }
+  if (id) showItem(id);
+}
+
+function showItem(id) {
+  const item = items[id];
+  drawing.querySelectorAll(".hotspot").forEach((d) => d.classList.toggle("selected", d.dataset.id === id));
+  history.replaceState(null, "", "#" + current + "/" + id);
+
+  info.replaceChildren(el("h3", item.id + (item.description ? " \\u2013 " + item.description : "")));
+  info.appendChild(el("p", item.type));
+  if (item.faceView) {
+    info.appendChild(el("a", "Face view (PDF)", { href: item.faceView, target: "_blank" }));
+    info.appendChild(el("iframe", "", { src: item.faceView }));
+  }
+  if (item.pinCount !== null) info.appendChild(el("p", item.pinCount + " pins"));
+  if (item.locations.length) {
+    info.appendChild(el("h4", "Location"));
+    const ul = el("ul");
+    for (const loc of item.locations) {
+      const parts = [loc.qualifier, loc.location, loc.gridReference && "grid " + loc.gridReference, loc.locationPage !== null && "page " + loc.locationPage];
+      ul.appendChild(el("li", parts.filter(Boolean).join(" \\u2013 ")));
+    }
+    info.appendChild(ul);
+  }
+  const others = item.mentionedOn.filter((i) => i !== current);
+  if (others.length) {
+    info.appendChild(el("h4", "Also on"));
+    const ul = el("ul");
+    for (const i of others) {
+      const a = el("a", pages[i].cell + " " + pages[i].section + " \\u203a " + pages[i].page);
+      a.addEventListener("click", () => showPage(i, id));
+      const li = el("li");
+      li.appendChild(a);
+      ul.appendChild(li);
+    }
+    info.appendChild(ul);
+  }
+}
+
+viewport.addEventListener("wheel", (e) => {
+  e.preventDefault();
+  const rect = viewport.getBoundingClientRect();
+  const mx = e.clientX - rect.left;
+  const my = e.clientY - rect.top;
+  const factor = e.deltaY < 0 ? 1.2 : 1 / 1.2;
+  view.x = mx - (mx - view.x) * factor;
+  view.y = my - (my - view.y) * factor;
+  view.scale *= factor;
+  applyView();
+}, { passive: false });
+
+let drag = null;
+viewport.addEventListener("mousedown", (e) => {
+  drag = { x: e.clientX - view.x, y: e.clientY - view.y };
+});
+window.addEventListener("mousemove", (e) => {
+  if (!drag) return;
+  view.x = e.clientX - drag.x;
+  view.y = e.clientY - drag.y;
+  applyView();
+});
+window.addEventListener("mouseup", () => {
+  drag = null;
+});
+
+links.forEach((link) => link.addEventListener("click", () => showPage(Number(link.dataset.page))));
+
+const [hashPage, hashID] = location.hash.slice(1).split("/");
+if (pages[Number(hashPage)]) {
+  showPage(Number(hashPage), items[hashID] ? hashID : null);
+} else if (pages.length) {
+  showPage(0);
+}
+`;
+
+function renderNav(pages: ViewerPage[]): string {
+  const sections: { title: string; links: string[] }[] = [];
+  pages.forEach((page, i) => {
+    const title = `${page.cell} ${page.section}`;
+    if (sections[sections.length - 1]?.title !== title) {
+      sections.push({ title, links: [] });
+    }
+    sections[sections.length - 1].links.push(
+      `<li><a data-page="${i}">${escapeHTML(page.page)}${
+        page.thumbnail
+          ? `<img class="thumb" src="${page.thumbnail}" loading="lazy">`
+          : ""
+      }</a></li>`
+    );
+  });
+
+  return `<ul>${sections
+    .map(
+      (section) =>
+        `<li><details><summary>${escapeHTML(
+          section.title
+        )}</summary><ul>${section.links.join("")}</ul></details></li>`
+    )
+    .join("")}</ul>`;
+}
+
+/**
+ * Writes Wiring/viewer.html, which shows the saved SVG diagrams with pan
+ * and zoom. Connector, splice and ground IDs on the diagrams can be clicked
+ * for their face view, location and the other pages that mention them,
+ * from the connector database.
+ *
+ * Returns the number of pages in the viewer, or undefined if there's no
+ * wiring download.
+ */
+export default async function buildWiringViewer(
+  outputPath: string
+): Promise<number | undefined> {
+  const toc = await readWiringTableOfContents(outputPath);
+  if (!toc) {
+    return undefined;
+  }
+
+  const databasePath = join(outputPath, "Wiring", CONNECTOR_DATABASE_FILENAME);
+  const databaseItems: ConnectorDatabaseItem[] = (await fileExists(
+    databasePath
+  ))
+    ? (await readFile(databasePath, { encoding: "utf-8" }))
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+    : [];
+
+  const savedPages = await readSavedWiringPages(
+    outputPath,
+    toc,
+    await readOutputPaths(outputPath)
+  );
+  const pageIndexes = new Map(savedPages.map((page, i) => [page.pdfFile, i]));
+
+  const items: { [id: string]: ViewerItem } = {};
+  for (const item of databaseItems) {
+    items[item.id.toUpperCase()] = {
+      ...item,
+      faceView: item.faceView && wiringHref(item.faceView.pdf),
+      mentionedOn: item.mentionedOn
+        .map((mention) => pageIndexes.get(mention.file))
+        .filter((i): i is number => i !== undefined),
+    };
+  }
+
+  const pages: ViewerPage[] = [];
+  for (const page of savedPages) {
+    // pages saved before hotspots were added are shown without them
+    const hotspotsPath = join(outputPath, page.hotspotsFile);
+    const hotspots: SvgHotspot[] = (await fileExists(hotspotsPath))
+      ? JSON.parse(await readFile(hotspotsPath, { encoding: "utf-8" }))
+      : [];
+
+    pages.push({
+      cell: page.section.Number,
+      section: page.section.Title,
+      page: page.pageName,
+      svg: wiringHref(page.svgFile),
+      pdf: wiringHref(page.pdfFile),
+      thumbnail: (await fileExists(join(outputPath, page.thumbnailFile)))
+        ? wiringHref(page.thumbnailFile)
+        : null,
+      // only IDs there's something to show for
+      hotspots: hotspots
+        .map((spot) => ({ ...spot, id: spot.id.toUpperCase() }))
+        .filter((spot) => spot.id in items),
+    });
+  }
+
+  await writeFile(
+    join(outputPath, "Wiring", VIEWER_DATA_FILENAME),
+    `window.WIRING_VIEWER = ${JSON.stringify({ pages, items })};\n`
+  );
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Wiring Viewer</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<nav>
+<h3>Wiring Diagrams</h3>
+${renderNav(pages)}
+</nav>
+<main>
+<div id="title"></div>
+<div id="viewport"><div id="drawing"></div></div>
+</main>
+<aside id="info"><p>Click an outlined connector, splice or ground.</p></aside>
+<script src="${VIEWER_DATA_FILENAME}"></script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+  await writeFile(join(outputPath, "Wiring", VIEWER_FILENAME), html);
+
+  return pages.length;
+}
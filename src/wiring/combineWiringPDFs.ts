@@ -0,0 +1,232 @@
+import { readFile, unlink, writeFile } from "fs/promises";
+import { basename, dirname, join, relative, resolve, sep } from "path";
+import type { PagePool } from "../concurrency";
+import { readOutputPaths } from "../outputPaths";
+import {
+  readSavedWiringPages,
+  readWiringTableOfContents,
+  SavedWiringPage,
+} from "./savedWiring";
+import { escapeHTML, toHref } from "../workshop/saveIndexPage";
+import { getSvgSize } from "./exportWiringPNGs";
+import { getPrintedPageSize, PaperSize } from "./paperSize";
+
+export const WIRING_BOOK_FILENAME = "Wiring Diagrams.pdf";
+
+export interface CombineWiringOptions {
+  // One PDF per cell, in the cell's folder
+  sections: boolean;
+  // One PDF of every page, in the Wiring folder
+  book: boolean;
+  // What each page is printed on, like the PDFs of single pages
+  paperSize?: PaperSize;
+}
+
+// A diagram, and the headings (bookmarks) that start at it
+interface CombinedPage {
+  headings: { level: number; text: string }[];
+  svgFile: string;
+}
+
+const STYLE = `
+body { margin: 0; font-family: sans-serif; }
+.page { display: flex; flex-direction: column; break-after: page; }
+h1, h2, h3 { font-size: 10pt; margin: 0 0 4px; }
+h1 { font-size: 14pt; }
+img { flex: 1; min-height: 0; width: 100%; object-fit: contain; }
+`;
+
+// Room left above a diagram for each of its headings, and below the
+// page so rounding doesn't push it onto a second one, in CSS pixels
+const HEADING_HEIGHT = 24;
+const PAGE_SLACK = 10;
+
+// How long the combined HTML gets to load its SVGs, so a book too big for
+// the browser fails instead of hanging the download forever
+const LOAD_TIMEOUT_PER_PAGE_MS = 5_000;
+const MIN_LOAD_TIMEOUT_MS = 60_000;
+const MAX_LOAD_TIMEOUT_MS = 30 * 60_000;
+
+/**
+ * Prints `combined` into one PDF at `pdfPath`. Chromium turns the headings
+ * into the PDF's bookmarks. The HTML is written next to the PDF so that
+ * the SVGs can be loaded from file:// like savePage does.
+ */
+async function printCombined(
+  outputPath: string,
+  combined: CombinedPage[],
+  pdfPath: string,
+  pages: PagePool,
+  paperSize: PaperSize | undefined
+): Promise<void> {
+  const folder = dirname(pdfPath);
+  // Each page gets a named @page rule, since with --paperSize svg they're
+  // all different sizes
+  const pageRules: string[] = [];
+  const body: string[] = [];
+  for (const [i, { headings, svgFile }] of combined.entries()) {
+    const svgPath = join(outputPath, svgFile);
+    const svgSize =
+      paperSize?.kind === "content"
+        ? getSvgSize(await readFile(svgPath, { encoding: "utf-8" }))
+        : undefined;
+    // the headings go above the diagram rather than on top of it, and a
+    // diagram whose size can't be read goes on Letter paper like printPDF
+    const size = getPrintedPageSize(
+      paperSize?.kind === "content" && !svgSize ? undefined : paperSize,
+      {
+        width: svgSize?.width ?? 0,
+        height:
+          (svgSize?.height ?? 0) +
+          headings.length * HEADING_HEIGHT +
+          PAGE_SLACK,
+      }
+    );
+
+    pageRules.push(
+      `@page p${i} { size: ${size.width}px ${size.height}px; margin: ${size.margin}px; }`
+    );
+    const h = headings
+      .map(({ level, text }) => `<h${level}>${escapeHTML(text)}</h${level}>`)
+      .join("");
+    const src = toHref(relative(folder, svgPath).split(sep));
+    body.push(
+      `<div class="page" style="page: p${i}; height: ${
+        size.height - 2 * size.margin - PAGE_SLACK
+      }px">${h}<img src="${src}"></div>`
+    );
+  }
+
+  const htmlPath = join(folder, `.${basename(pdfPath, ".pdf")}.html`);
+  await writeFile(
+    htmlPath,
+    `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>${STYLE}${pageRules.join("\n")}</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`
+  );
+
+  try {
+    await pages.use(async (browserPage) => {
+      // a whole book of SVGs can take a while to load
+      await browserPage.goto(`file:///${resolve(htmlPath)}`, {
+        waitUntil: "load",
+        timeout: Math.min(
+          Math.max(
+            combined.length * LOAD_TIMEOUT_PER_PAGE_MS,
+            MIN_LOAD_TIMEOUT_MS
+          ),
+          MAX_LOAD_TIMEOUT_MS
+        ),
+      });
+      await browserPage.pdf({
+        path: pdfPath,
+        preferCSSPageSize: true,
+        outline: true,
+      });
+    });
+  } finally {
+    await unlink(htmlPath);
+  }
+}
+
+/**
+ * Combines the saved SVG wiring pages into bookmarked PDFs: one per cell,
+ * bookmarked by page, and/or one for the whole book, bookmarked by
+ * Maintitle, then cell, then page. Basic book PDFs aren't included.
+ */
+export default async function combineWiringPDFs(
+  outputPath: string,
+  pages: PagePool,
+  options: CombineWiringOptions
+): Promise<void> {
+  const toc = await readWiringTableOfContents(outputPath);
+  if (!toc) {
+    return;
+  }
+
+  const savedPages = await readSavedWiringPages(
+    outputPath,
+    toc,
+    await readOutputPaths(outputPath)
+  );
+
+  const sections = new Map<string, SavedWiringPage[]>();
+  for (const page of savedPages) {
+    const list = sections.get(page.section.Number) || [];
+    list.push(page);
+    sections.set(page.section.Number, list);
+  }
+
+  if (options.sections) {
+    for (const sectionPages of sections.values()) {
+      const { section } = sectionPages[0];
+      const folder = dirname(join(outputPath, sectionPages[0].svgFile));
+      const pdfPath = join(folder, `${basename(folder)}.pdf`);
+
+      console.log(`Combining ${section.Title} into one PDF...`);
+      try {
+        await printCombined(
+          outputPath,
+          sectionPages.map((page) => ({
+            headings: [{ level: 1, text: page.pageName }],
+            svgFile: page.svgFile,
+          })),
+          pdfPath,
+          pages,
+          options.paperSize
+        );
+      } catch (e) {
+        // the pages are all still there on their own
+        console.error(`Error combining ${section.Title} into one PDF:`, e);
+      }
+    }
+  }
+
+  if (options.book && savedPages.length) {
+    console.log("Combining every wiring page into one PDF...");
+    const combined: CombinedPage[] = [];
+    let maintitle: string | undefined;
+
+    for (const sectionPages of sections.values()) {
+      const { section } = sectionPages[0];
+      sectionPages.forEach((page, i) => {
+        const headings = [];
+        if (i === 0 && section.Maintitle !== maintitle) {
+          maintitle = section.Maintitle;
+          headings.push({ level: 1, text: section.Maintitle });
+        }
+        if (i === 0) {
+          headings.push({
+            level: 2,
+            text: `${section.Number} ${section.Title}`,
+          });
+        }
+        headings.push({ level: 3, text: page.pageName });
+        combined.push({ headings, svgFile: page.svgFile });
+      });
+    }
+
+    try {
+      await printCombined(
+        outputPath,
+        combined,
+        join(outputPath, "Wiring", WIRING_BOOK_FILENAME),
+        pages,
+        options.paperSize
+      );
+    } catch (e) {
+      console.error(
+        `Error combining every wiring page into one PDF. It may be too big for the browser; try --combineWiringPDFs for one PDF per section instead:`,
+        e
+      );
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { Page } from "playwright";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { fileExists } from "../utils";
+import type { Connector } from "./fetchConnectorList";
+
+export const PINOUTS_CSV_FILENAME = "pinouts.csv";
+
+export interface ConnectorPin {
+  pin: string;
+  circuit: string;
+  wireColor: string;
+  function: string;
+  // Terminal part info revealed by the "Terminal Part" button, by column heading
+  terminal: { [heading: string]: string };
+  // Every column, by its heading on PTS, in case one isn't recognized above
+  columns: { [heading: string]: string };
+}
+
+// Saved as JSON next to each connector's face view PDF
+export interface ConnectorPinout {
+  connector: Connector;
+  pins: ConnectorPin[];
+}
+
+interface PinTable {
+  headings: string[];
+  rows: string[][];
+}
+
+// Column headings vary a little between vehicles
+const COLUMN_PATTERNS: {
+  [field in "pin" | "circuit" | "wireColor" | "function"]: RegExp;
+} = {
+  pin: /^(pin|cavity|term)/i,
+  circuit: /circuit/i,
+  wireColor: /colou?r/i,
+  function: /function|description/i,
+};
+
+// Runs in the browser. The first row with <th>s (or the first row) is the header.
+const readPinTable = (): PinTable => {
+  const table = document.querySelector("table.pintable");
+  const rows = Array.from(table?.querySelectorAll("tr") || []);
+  const cellText = (row: Element) =>
+    Array.from(row.querySelectorAll("th, td")).map((cell) =>
+      (cell.textContent || "").replace(/\s+/g, " ").trim()
+    );
+
+  const headerIndex = Math.max(
+    rows.findIndex((row) => row.querySelector("th")),
+    0
+  );
+  return {
+    headings: rows.length ? cellText(rows[headerIndex]) : [],
+    rows: rows
+      .slice(headerIndex + 1)
+      .map(cellText)
+      .filter((cells) => cells.some(Boolean)),
+  };
+};
+
+/**
+ * Reads the pin table of the connector face view open in `page`, clicking
+ * the "Terminal Part" button (if there is one) to show the terminal part
+ * columns as well.
+ */
+export async function scrapePinTable(page: Page): Promise<ConnectorPin[]> {
+  const before = await page.evaluate(readPinTable);
+
+  const clicked = await page.evaluate(() => {
+    const button = document.getElementById("TerminalPartBtn");
+    button?.click();
+    return !!button;
+  });
+  if (clicked) {
+    // same as waiting for the face view to load, the timeout doesn't matter
+    try {
+      await page.waitForLoadState("networkidle", { timeout: 150 });
+    } catch {
+      // pass
+    }
+  }
+
+  const after = await page.evaluate(readPinTable);
+  const terminalHeadings = after.headings.filter(
+    (heading) => !before.headings.includes(heading)
+  );
+
+  return after.rows.map((cells) => {
+    const columns: { [heading: string]: string } = {};
+    after.headings.forEach((heading, i) => {
+      columns[heading || `Column ${i + 1}`] = cells[i] || "";
+    });
+
+    const find = (pattern: RegExp) => {
+      const heading = after.headings.find(
+        (h) => pattern.test(h) && !terminalHeadings.includes(h)
+      );
+      return heading ? columns[heading] : "";
+    };
+
+    const terminal: { [heading: string]: string } = {};
+    for (const heading of terminalHeadings) {
+      terminal[heading] = columns[heading];
+    }
+
+    return {
+      pin: find(COLUMN_PATTERNS.pin),
+      circuit: find(COLUMN_PATTERNS.circuit),
+      wireColor: find(COLUMN_PATTERNS.wireColor),
+      function: find(COLUMN_PATTERNS.function),
+      terminal,
+      columns,
+    };
+  });
+}
+
+const csvField = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const csvHeader = [
+  "Connector ID",
+  "Connector",
+  "Pin",
+  "Circuit",
+  "Wire Color",
+  "Function",
+  "Terminal Part",
+].join(",");
+
+/**
+ * Combines the pin-outs saved for each connector into one pinouts.csv.
+ * Reads them back from disk so that connectors saved by earlier runs are
+ * included too.
+ */
+export async function savePinoutsCSV(
+  folderPath: string,
+  pinoutPaths: string[]
+): Promise<void> {
+  const lines = [csvHeader];
+
+  for (const path of pinoutPaths) {
+    if (!(await fileExists(path))) {
+      continue;
+    }
+
+    const { connector, pins }: ConnectorPinout = JSON.parse(
+      await readFile(path, { encoding: "utf-8" })
+    );
+    for (const pin of pins) {
+      lines.push(
+        [
+          connector.Name,
+          connector.Desc,
+          pin.pin,
+          pin.circuit,
+          pin.wireColor,
+          pin.function,
+          Object.entries(pin.terminal)
+            .map(([heading, value]) => `${heading}: ${value}`)
+            .join("; "),
+        ]
+          .map(csvField)
+          .join(",")
+      );
+    }
+  }
+
+  await writeFile(
+    join(folderPath, PINOUTS_CSV_FILENAME),
+    lines.join("\n") + "\n"
+  );
+}
@@ -0,0 +1,163 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { Page } from "playwright";
+import type { PagePool } from "../concurrency";
+import { fileExists } from "../utils";
+import { readOutputPaths } from "../outputPaths";
+import { readSavedWiringPages, readWiringTableOfContents } from "./savedWiring";
+
+const THUMBNAIL_WIDTH = 320;
+
+// SVG units are CSS pixels, which are 96 to the inch
+const SVG_DPI = 96;
+
+// Reads the size of a wiring SVG from its root element, preferring the
+// viewBox since PTS sometimes sets width and height to 100%
+export function getSvgSize(
+  svg: string
+): { width: number; height: number } | undefined {
+  const root = svg.match(/<svg\b[^>]*>/)?.[0];
+  if (!root) {
+    return undefined;
+  }
+
+  const attr = (name: string) =>
+    root.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+  const viewBox = attr("viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+
+  const width = parseFloat(attr("width") || "");
+  const height = parseFloat(attr("height") || "");
+  if (/%/.test(attr("width") || "%") || !(width > 0 && height > 0)) {
+    return undefined;
+  }
+  return { width, height };
+}
+
+/**
+ * Screenshots `svg` scaled to `width` x `height` pixels into a PNG at
+ * `path`, on white since wiring SVGs have a transparent background.
+ */
+async function renderPNG(
+  browserPage: Page,
+  svg: string,
+  size: { width: number; height: number },
+  width: number,
+  height: number,
+  path: string
+): Promise<void> {
+  // without a viewBox, sizing the SVG would crop it instead of scaling it
+  const root = svg.match(/<svg\b[^>]*>/)![0];
+  const scalable = /\sviewBox\s*=/.test(root)
+    ? svg
+    : svg.replace(
+        root,
+        root.replace(
+          /^<svg\b/,
+          `<svg viewBox="0 0 ${size.width} ${size.height}"`
+        )
+      );
+
+  await browserPage.setViewportSize({ width, height });
+  await browserPage.setContent(
+    `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+html, body { margin: 0; background: #fff; }
+svg { display: block; width: ${width}px; height: ${height}px; }
+</style>
+</head>
+<body>
+${scalable}
+</body>
+</html>
+`,
+    { waitUntil: "load" }
+  );
+  await browserPage.screenshot({
+    path,
+    clip: { x: 0, y: 0, width, height },
+  });
+}
+
+/**
+ * Saves a PNG at `dpi` and a small thumbnail next to every saved SVG
+ * wiring page that doesn't have them yet, so pages saved by earlier runs
+ * get them too. Returns the number of pages exported.
+ */
+export default async function exportWiringPNGs(
+  outputPath: string,
+  dpi: number,
+  pages: PagePool
+): Promise<number> {
+  const toc = await readWiringTableOfContents(outputPath);
+  if (!toc) {
+    return 0;
+  }
+
+  let exported = 0;
+  const savedPages = await readSavedWiringPages(
+    outputPath,
+    toc,
+    await readOutputPaths(outputPath)
+  );
+  await pages.forEach(savedPages, async (page) => {
+    const pngPath = join(outputPath, page.pngFile);
+    const thumbnailPath = join(outputPath, page.thumbnailFile);
+    if ((await fileExists(pngPath)) && (await fileExists(thumbnailPath))) {
+      return;
+    }
+
+    const svg = await readFile(join(outputPath, page.svgFile), {
+      encoding: "utf-8",
+    });
+    const size = getSvgSize(svg);
+    if (!size) {
+      console.error(`Couldn't tell how big ${page.svgFile} is, no PNG saved.`);
+      return;
+    }
+
+    console.log(`Saving PNG of ${page.pageName}...`);
+    await pages.use(async (browserPage) => {
+      // pages are shared, so put the viewport back for whoever's next
+      const viewport = browserPage.viewportSize();
+      try {
+        const scale = dpi / SVG_DPI;
+        await renderPNG(
+          browserPage,
+          svg,
+          size,
+          Math.round(size.width * scale),
+          Math.round(size.height * scale),
+          pngPath
+        );
+        await renderPNG(
+          browserPage,
+          svg,
+          size,
+          THUMBNAIL_WIDTH,
+          Math.round((size.height * THUMBNAIL_WIDTH) / size.width),
+          thumbnailPath
+        );
+        exported++;
+      } catch (e) {
+        // the PDF and SVG are still there, so carry on
+        console.error(`Error saving PNG of ${page.pageName}:`, e);
+      } finally {
+        if (viewport) {
+          await browserPage.setViewportSize(viewport);
+        }
+      }
+    });
+  });
+
+  return exported;
+}
@@ -1,13 +1,17 @@
+import { Readable } from "stream";
 import client from "../client";
 
-// TODO: May not work for older vehicles. 1998 Ford Taurus uses a different URL, and is in GIF format instead of PDF:
+// Doesn't work for older vehicles. 1998 Ford Taurus uses a different URL, and is in GIF format instead of PDF:
 // https://www.fordservicecontent.com/Ford_Content/pubs/auxf/~WE/USENIE/EWH/EWHCF099.GIF
+// Those are downloaded by pre-2003/saveLegacyWiring instead.
 export default async function fetchBasicPage(
   filename: string,
   book: string
-): Promise<ReadableStream> {
+): Promise<Readable> {
   const req = await client({
-    url: `https://www.fordservicecontent.com/Ford_Content/pubs/content/~W${book}/~MUS~LEN/${filename}`,
+    url: `https://www.fordservicecontent.com/Ford_Content/pubs/content/~W${book}/~MUS~LEN/${encodeURIComponent(
+      filename
+    )}`,
     responseType: "stream",
   });
 
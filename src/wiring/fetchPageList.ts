@@ -8,7 +8,7 @@ export interface FetchWiringPageListParams extends WiringFetchParams {
 }
 
 export interface BasicPagePageListItem {
-  // Page number
+  // Page number, or the PDF's filename on Ford's server
   Value: string;
   // Page title
   Text: string;
@@ -1,4 +1,5 @@
 import client from "../client";
+import type { Config } from "../readConfig";
 
 export interface WiringFetchParams {
   environment: string;
@@ -36,6 +37,14 @@ export const isBasicPage = (
 ): entry is WiringTableOfContentsEntry & { Type: "BasicPage" } =>
   entry.Type === "BasicPage";
 
+export const getWiringFetchParams = (config: Config): WiringFetchParams => ({
+  ...config.wiring,
+  book: config.workshop.WiringBookCode,
+  contentlanguage: config.workshop.contentlanguage,
+  contentmarket: config.workshop.contentmarket,
+  languageCode: config.workshop.languageOdysseyCode,
+});
+
 export default async function fetchTableOfContents(
   params: WiringFetchParams
 ): Promise<WiringTableOfContentsEntry[]> {
@@ -0,0 +1,168 @@
+import { Page } from "playwright";
+
+// How big to make wiring and connector view PDFs. "content" makes each
+// PDF page exactly the size of the SVG (or connector page) it shows;
+// "paper" fits it on landscape paper of the given size, in CSS pixels.
+export type PaperSize =
+  | { kind: "content" }
+  | { kind: "paper"; width: number; height: number };
+
+const PX_PER_UNIT: { [unit: string]: number } = {
+  in: 96,
+  mm: 96 / 25.4,
+  cm: 96 / 2.54,
+  px: 1,
+};
+
+// Landscape, width first
+const NAMED_SIZES: { [name: string]: string } = {
+  letter: "11inx8.5in",
+  legal: "14inx8.5in",
+  tabloid: "17inx11in",
+  a4: "297mmx210mm",
+  a3: "420mmx297mm",
+  a2: "594mmx420mm",
+};
+
+const MARGIN = 0.25 * PX_PER_UNIT.in;
+
+// What PTS prints on
+const LETTER = { width: 11 * PX_PER_UNIT.in, height: 8.5 * PX_PER_UNIT.in };
+
+/**
+ * Parses --paperSize: "svg", a named size like "a3" or "tabloid", or a
+ * custom WIDTHxHEIGHT like "24inx18in" or "600mmx400mm".
+ */
+export function parsePaperSize(value: string): PaperSize {
+  const name = value.toLowerCase();
+  if (name === "svg") {
+    return { kind: "content" };
+  }
+
+  const size = NAMED_SIZES[name] || name;
+  const match = size.match(
+    /^(\d+(?:\.\d+)?)(in|mm|cm|px)x(\d+(?:\.\d+)?)(in|mm|cm|px)$/
+  );
+  if (!match) {
+    throw new Error(
+      `Unknown paper size ${value}. Use svg, ${Object.keys(NAMED_SIZES).join(
+        ", "
+      )} or a size like 24inx18in.`
+    );
+  }
+
+  const width = parseFloat(match[1]) * PX_PER_UNIT[match[2]];
+  const height = parseFloat(match[3]) * PX_PER_UNIT[match[4]];
+  if (width <= 2 * MARGIN || height <= 2 * MARGIN) {
+    throw new Error(`Paper size ${value} is too small.`);
+  }
+
+  return { kind: "paper", width, height };
+}
+
+/**
+ * Size and margin, in CSS pixels, of the paper a page `content` big is
+ * printed on at `paperSize`: landscape Letter if it isn't set, like
+ * printPDF, and the content's own size (rounded up) for "content".
+ */
+export function getPrintedPageSize(
+  paperSize: PaperSize | undefined,
+  content: { width: number; height: number }
+): { width: number; height: number; margin: number } {
+  if (paperSize?.kind === "content") {
+    return {
+      width: Math.ceil(content.width),
+      height: Math.ceil(content.height),
+      margin: 0,
+    };
+  }
+  const paper = paperSize || LETTER;
+  return { width: paper.width, height: paper.height, margin: MARGIN };
+}
+
+// Runs in the browser. Gives an SVG root a viewBox (if it doesn't have
+// one) so it scales, then sizes it. Returns the size it was drawn at.
+const resizeSvgRoot = (size: { width: number; height: number } | null) => {
+  const root = document.documentElement as unknown as SVGSVGElement;
+  if (root.tagName.toLowerCase() !== "svg") {
+    return null;
+  }
+
+  const viewBox = root.viewBox?.baseVal;
+  let width = viewBox?.width || root.width.baseVal.value;
+  let height = viewBox?.height || root.height.baseVal.value;
+  if (!width || !height) {
+    const box = root.getBBox();
+    root.setAttribute(
+      "viewBox",
+      `${box.x} ${box.y} ${box.width} ${box.height}`
+    );
+    width = box.width;
+    height = box.height;
+  } else if (!viewBox?.width) {
+    root.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  }
+
+  root.setAttribute("width", `${size ? size.width : width}`);
+  root.setAttribute("height", `${size ? size.height : height}`);
+  return { width, height };
+};
+
+/**
+ * Prints the SVG or connector view open in `page` to `path` at
+ * `paperSize`, or on landscape Letter paper like PTS does if it isn't set.
+ */
+export async function printPDF(
+  page: Page,
+  path: string,
+  paperSize: PaperSize | undefined
+): Promise<void> {
+  if (!paperSize) {
+    await page.pdf({ path, landscape: true });
+    return;
+  }
+
+  if (paperSize.kind === "paper") {
+    const printable = {
+      width: paperSize.width - 2 * MARGIN,
+      height: paperSize.height - 2 * MARGIN,
+    };
+    const margin = `${MARGIN}px`;
+    const options = {
+      path,
+      width: `${paperSize.width}px`,
+      height: `${paperSize.height}px`,
+      margin: { top: margin, right: margin, bottom: margin, left: margin },
+    };
+
+    // SVGs scale to fill the page themselves, keeping their aspect ratio
+    if (await page.evaluate(resizeSvgRoot, printable)) {
+      await page.pdf(options);
+      return;
+    }
+
+    // connector views are HTML, so scale them to the page's width
+    const contentWidth = await page.evaluate(
+      () => document.documentElement.scrollWidth
+    );
+    await page.pdf({
+      ...options,
+      scale: Math.min(Math.max(printable.width / contentWidth, 0.1), 2),
+    });
+    return;
+  }
+
+  const size =
+    (await page.evaluate(resizeSvgRoot, null)) ||
+    (await page.evaluate(() => ({
+      width: document.documentElement.scrollWidth,
+      height: document.documentElement.scrollHeight,
+    })));
+  await page.pdf({
+    path,
+    // rounded up so the drawing doesn't spill onto a second page
+    width: `${Math.ceil(size.width)}px`,
+    height: `${Math.ceil(size.height)}px`,
+    pageRanges: "1",
+  });
+}
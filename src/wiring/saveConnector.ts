@@ -1,71 +1,158 @@
 import { WiringFetchPageParams } from "./savePage";
 import { WiringTableOfContentsEntry } from "./fetchTableOfContents";
-import { Page } from "playwright";
-import fetchConnectorList from "./fetchConnectorList";
-import { sanitizeName } from "../utils";
-import { join } from "path";
-import { writeFile } from "fs/promises";
+import { PagePool } from "../concurrency";
+import { waitForRateLimit } from "../client";
+import { shouldAbort } from "../errors";
+import fetchConnectorList, { Connector } from "./fetchConnectorList";
+import {
+  ConnectorPinout,
+  savePinoutsCSV,
+  scrapePinTable,
+} from "./connectorPinouts";
+import { fileExists, sanitizeName } from "../utils";
+import { join, relative, sep } from "path";
+import { readFile, writeFile } from "fs/promises";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
+import { OutputPaths, PlannedPath, assignPaths } from "../outputPaths";
+import { PaperSize, printPDF } from "./paperSize";
+
+// Filename (without extension) for a connector's face view
+export function getConnectorFilename(connector: Connector): string {
+  let title = `${sanitizeName(connector.Desc)} - ${connector.Name}`;
+  if (title.length > 200) {
+    title = `${title.slice(0, 150)} (truncated) - ${connector.Name}`;
+  }
+  return title;
+}
+
+// Name of the paths.json group for the connectors saved in `folder`,
+// relative to the output directory
+export const connectorPathsGroup = (folder: string): string =>
+  `Connectors/${folder.split(sep).join("/")}`;
+
+// Where each connector's face view would be saved, keyed by connector ID,
+// for resolvePaths to check for collisions
+export const planConnectorPaths = (
+  connectors: Connector[],
+  folderPath: string
+): PlannedPath[] =>
+  connectors.map((connector) => ({
+    key: connector.Name,
+    path: join(folderPath, getConnectorFilename(connector)),
+    suffix: ` (${connector.FaceView})`,
+  }));
 
 export default async function saveConnector(
   params: WiringFetchPageParams,
   doc: WiringTableOfContentsEntry & { Type: "Connectors" },
-  browserPage: Page,
-  folderPath: string
+  pages: PagePool,
+  folderPath: string,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  paperSize?: PaperSize
 ): Promise<void> {
   const connectors = await fetchConnectorList(params);
 
-  await writeFile(
-    join(folderPath, "connectors.json"),
-    JSON.stringify(connectors, null, 2)
+  // Every Connectors entry saved in this folder shares connectors.json and
+  // pinouts.csv, so the list is merged with what's there. Entries are
+  // saved side by side, but PTS gives each the same list, so it doesn't
+  // matter which writes last.
+  const connectorsPath = join(folderPath, "connectors.json");
+  const savedConnectors: Connector[] = (await fileExists(connectorsPath))
+    ? JSON.parse(await readFile(connectorsPath, { encoding: "utf-8" }))
+    : [];
+  const names = new Set(connectors.map((connector) => connector.Name));
+  const allConnectors = [
+    ...savedConnectors.filter((connector) => !names.has(connector.Name)),
+    ...connectors,
+  ];
+  await writeFile(connectorsPath, JSON.stringify(allConnectors, null, 2));
+
+  const connectorPaths = await assignPaths(
+    outputPaths,
+    connectorPathsGroup(relative(outputPaths.outputPath, folderPath)),
+    planConnectorPaths(allConnectors, folderPath)
   );
 
-  for (const connector of connectors) {
-    console.log(`Saving connector ${connector.Desc} (${connector.Name})...`);
+  await pages.forEach(connectors, async (connector) => {
+    const path = `${connectorPaths.get(connector.Name)}.pdf`;
+    const pinoutPath = `${connectorPaths.get(connector.Name)}.json`;
 
-    let title = `${sanitizeName(connector.Desc)} - ${connector.Name}`;
-    if (title.length > 200) {
-      title = `${title.slice(0, 150)} (truncated) - ${connector.Name}`;
-    }
-    const path = join(folderPath, `${title}.pdf`);
-
-    const url = new URL(
-      "https://www.fordtechservice.dealerconnection.com/wiring/face/"
-    );
-    url.searchParams.set("book", params.book);
-    url.searchParams.set("vehicleId", params.vehicleId);
-    url.searchParams.set("cell", doc.Number);
-    url.searchParams.set("item", connector.FaceView);
-    url.searchParams.set("bookType", params.bookType);
-    url.searchParams.set("languageCode", params.languageCode);
-
-    try {
-      await browserPage.goto(url.toString(), { waitUntil: "domcontentloaded" });
-      await browserPage.waitForSelector("table.pintable");
-    } catch (e) {
-      console.error(
-        `Error loading connector ${connector.Desc} (${connector.Name}), skipping...`
+    const key = manifestKey("connector", doc.Number, connector.Name);
+    if (await isComplete(manifest, key, [path, pinoutPath])) {
+      console.log(
+        `Skipping connector ${connector.Desc} (${connector.Name}), already saved.`
       );
-      await browserPage.waitForTimeout(500);
-      continue;
+      return;
     }
 
-    // wait up to 150ms for the page to finish loading.
-    // if the timeout is hit, Playwright throws an error
-    // which doesn't matter here.
-    try {
-      await browserPage.waitForLoadState("networkidle", { timeout: 150 });
-    } catch {
-      // pass
-    }
+    await pages.use(async (browserPage) => {
+      console.log(`Saving connector ${connector.Desc} (${connector.Name})...`);
+
+      const url = new URL(
+        "https://www.fordtechservice.dealerconnection.com/wiring/face/"
+      );
+      url.searchParams.set("book", params.book);
+      url.searchParams.set("vehicleId", params.vehicleId);
+      url.searchParams.set("cell", doc.Number);
+      url.searchParams.set("item", connector.FaceView);
+      url.searchParams.set("bookType", params.bookType);
+      url.searchParams.set("languageCode", params.languageCode);
+
+      // A malformed pin table or a failed print only loses this connector
+      try {
+        await waitForRateLimit();
+        await browserPage.goto(url.toString(), {
+          waitUntil: "domcontentloaded",
+        });
+        await browserPage.waitForSelector("table.pintable");
+
+        // wait up to 150ms for the page to finish loading.
+        // if the timeout is hit, Playwright throws an error
+        // which doesn't matter here.
+        try {
+          await browserPage.waitForLoadState("networkidle", {
+            timeout: 150,
+          });
+        } catch {
+          // pass
+        }
 
-    // Click the "Terminal Part" button if it exists
-    await browserPage.evaluate(
-      'document.getElementById("TerminalPartBtn")?.click()'
-    );
+        // Also clicks the "Terminal Part" button if it exists,
+        // so the PDF shows the terminal parts too
+        const pinout: ConnectorPinout = {
+          connector,
+          pins: await scrapePinTable(browserPage),
+        };
+        await writeFile(pinoutPath, JSON.stringify(pinout, null, 2));
 
-    await browserPage.pdf({
-      path: path,
-      landscape: true,
+        await printPDF(browserPage, path, paperSize);
+
+        await markComplete(manifest, key, [path, pinoutPath]);
+      } catch (e) {
+        console.error(
+          `Error saving connector ${connector.Desc} (${connector.Name}), skipping...`,
+          e
+        );
+        await markFailed(manifest, key, e);
+        if (shouldAbort(e)) {
+          throw e;
+        }
+        await browserPage.waitForTimeout(500);
+      }
     });
-  }
+  });
+
+  await savePinoutsCSV(
+    folderPath,
+    allConnectors.map(
+      (connector) => `${connectorPaths.get(connector.Name)}.json`
+    )
+  );
 }
@@ -1,25 +1,44 @@
 import {
-  isBasicPage,
-  isConnectors,
-  isLocIndex,
-  isPage,
   WiringFetchParams,
   WiringTableOfContentsEntry,
 } from "./fetchTableOfContents";
 import { mkdir, writeFile } from "fs/promises";
 import { join } from "path";
-import { Page } from "playwright";
+import { PagePool } from "../concurrency";
 import { FetchManualPageParams } from "../workshop/fetchManualPage";
-import savePage, { WiringFetchPageParams } from "./savePage";
-import saveConnector from "./saveConnector";
-import { saveLocIndex } from "./saveLocIndex";
+import type { SaveOptions } from "../workshop/saveEntireManual";
+import { getWiringHandler, WiringHandlerContext } from "./wiringHandlers";
+import { Manifest } from "../manifest";
+import { OutputPaths, PlannedPath, assignPaths } from "../outputPaths";
+import { DownloadFilters, filterWiringTableOfContents } from "../filters";
+import type { PaperSize } from "./paperSize";
+
+export const getSectionFolderName = (doc: WiringTableOfContentsEntry) =>
+  doc.Title.replace(/\//g, "-");
+
+// Where each section's folder would be, keyed by cell number, for
+// resolvePaths to check for collisions
+export const planSectionPaths = (
+  toc: WiringTableOfContentsEntry[],
+  wiringPath: string
+): PlannedPath[] =>
+  toc.map((doc) => ({
+    key: doc.Number,
+    path: join(wiringPath, getSectionFolderName(doc)),
+    suffix: ` (${doc.Number})`,
+  }));
 
 export default async function saveEntireWiring(
   path: string,
   fetchManualParams: FetchManualPageParams,
   fetchWiringParams: WiringFetchParams,
   toc: WiringTableOfContentsEntry[],
-  browserPage: Page
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  filters: DownloadFilters,
+  paperSize?: PaperSize
 ) {
   const wiringPath = join(path, "Wiring");
   try {
@@ -45,35 +64,51 @@ export default async function saveEntireWiring(
 
   await writeFile(join(wiringPath, "toc.json"), JSON.stringify(toc, null, 2));
 
-  for (let i = 0; i < toc.length; i++) {
-    const doc = toc[i];
-
-    const sanitizedTitle = doc.Title.replace(/\//g, "-");
+  const sectionPaths = await assignPaths(
+    outputPaths,
+    "Wiring",
+    planSectionPaths(toc, wiringPath)
+  );
 
-    // Create a folder for each section in the TOC
-    const sectionPath = join(wiringPath, sanitizedTitle);
-    try {
-      await mkdir(sectionPath);
-    } catch (e: any) {
-      if (e.code !== "EEXIST") {
-        throw e;
-      }
-    }
+  const { toc: filteredToc, filtered } = filterWiringTableOfContents(
+    toc,
+    filters
+  );
+  if (filtered) {
+    console.log(
+      `Skipping ${filtered} of ${toc.length} wiring entries because of --include/--exclude.`
+    );
+  }
 
-    const wiringFetchParams: WiringFetchPageParams = {
+  const context: WiringHandlerContext = {
+    params: {
       ...fetchWiringParams,
       vehicleId: fetchManualParams.vehicleId,
       country: fetchManualParams.country,
-    };
+    },
+    pages,
+    options,
+    manifest,
+    outputPaths,
+    paperSize,
+  };
+
+  await pages.forEach(filteredToc, async (doc) => {
+    const handler = getWiringHandler(doc);
 
-    if (isPage(doc) || isBasicPage(doc)) {
-      await savePage(wiringFetchParams, doc, browserPage, sectionPath);
-    } else if (isConnectors(doc)) {
-      await saveConnector(wiringFetchParams, doc, browserPage, connectorPath);
-    } else if (isLocIndex(doc)) {
-      await saveLocIndex(wiringFetchParams, doc, connectorPath);
-    } else {
-      console.error(`Unrecognized wiring page type ${doc.Type}`, doc);
+    let folderPath = connectorPath;
+    if (handler.folder === "section") {
+      // Create a folder for each section in the TOC
+      folderPath = sectionPaths.get(doc.Number)!;
+      try {
+        await mkdir(folderPath);
+      } catch (e: any) {
+        if (e.code !== "EEXIST") {
+          throw e;
+        }
+      }
     }
-  }
+
+    await handler.save(doc, folderPath, context);
+  });
 }
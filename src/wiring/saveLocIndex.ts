@@ -7,6 +7,9 @@ import fetchLocIndexComponentType, {
 } from "./fetchLocIndexComponentType";
 import { join } from "path";
 import { createWriteStream } from "fs";
+import { writeFile } from "fs/promises";
+import { classifyError } from "../errors";
+import { Manifest, isComplete, manifestKey, markComplete } from "../manifest";
 
 const csvHeader = [
   // From
@@ -21,18 +24,36 @@ const csvHeader = [
   "Location in Vehicle",
 ].join(",");
 
+export const LOC_INDEX_JSON_FILENAME = "locIndex.json";
+
+// Entry in locIndex.json: what fetchLocIndexComponentType returned, with the
+// component type it was fetched as
+export type SavedLocIndexEntry = LocIndexComponentType & {
+  componentType: string;
+};
+
 export async function saveLocIndex(
   params: WiringFetchPageParams,
   doc: WiringTableOfContentsEntry & { Type: "LocIndex" },
-  folderPath: string
+  folderPath: string,
+  manifest: Manifest
 ): Promise<void> {
+  const csvPath = join(folderPath, "Connectors.csv");
+  const jsonPath = join(folderPath, LOC_INDEX_JSON_FILENAME);
+  const key = manifestKey("locIndex", doc.Number);
+
+  if (await isComplete(manifest, key, [csvPath, jsonPath])) {
+    console.log("Skipping Connectors.csv, already saved.");
+    return;
+  }
+
   console.log(
     "Saving Connectors.csv, which tells you which diagram to find which connector..."
   );
 
-  const csvPath = join(folderPath, "Connectors.csv");
   const writeStream = createWriteStream(csvPath, { encoding: "utf-8" });
   writeStream.write(csvHeader + "\n");
+  const saved: SavedLocIndexEntry[] = [];
 
   for (const connectorType of CONNECTOR_LOC_INDEX_TYPES) {
     let entries: LocIndexComponentType[];
@@ -43,14 +64,21 @@ export async function saveLocIndex(
         componentType: connectorType,
       });
     } catch (e: any) {
+      // PTS errors out for component types a vehicle doesn't have.
+      // Anything else (expired session, blocked, network) is a real problem.
+      if (classifyError(e) !== "badParams") {
+        writeStream.destroy();
+        throw e;
+      }
+
       console.log(
-        `Error fetching ${connectorType} for cell ${doc.Number} (it may not exist): ${e}`
+        `Couldn't fetch ${connectorType} for cell ${doc.Number}, it may not exist for this vehicle.`
       );
-      console.log(e);
       continue;
     }
 
     for (const entry of entries) {
+      saved.push({ ...entry, componentType: connectorType });
       writeStream.write(
         [
           entry.From || "",
@@ -63,5 +91,12 @@ export async function saveLocIndex(
     }
   }
 
-  writeStream.end();
+  await new Promise<void>((resolve, reject) => {
+    writeStream.on("error", reject);
+    writeStream.end(resolve);
+  });
+
+  await writeFile(jsonPath, JSON.stringify(saved, null, 2));
+
+  await markComplete(manifest, key, [csvPath, jsonPath]);
 }
@@ -1,15 +1,30 @@
-import { Page } from "playwright";
 import { JSDOM } from "jsdom";
-import fetchPageList from "./fetchPageList";
+import fetchPageList, { BasicPagePageListItem } from "./fetchPageList";
 import {
   WiringFetchParams,
   WiringTableOfContentsEntry,
 } from "./fetchTableOfContents";
 import fetchSvg from "./fetchSvg";
-import { join, resolve } from "path";
-import { writeFile } from "fs/promises";
-import { sanitizeName } from "../utils";
+import { join, relative, resolve, sep } from "path";
+import { unlink, writeFile } from "fs/promises";
+import saveStream, { hasPDFSignature, sanitizeName } from "../utils";
+import { PTSError, shouldAbort } from "../errors";
+import { retryInvalidContent, validateContent } from "../validateContent";
+import { findHotspots, HOTSPOTS_EXTENSION } from "./svgHotspots";
+import { extractSvgText } from "./svgText";
+import { PaperSize, printPDF } from "./paperSize";
+import { extractWiringTerms, TERMS_EXTENSION } from "./wiringTerms";
 import fetchBasicPage from "./fetchBasicPage";
+import { PagePool } from "../concurrency";
+import { OutputPaths, assignPaths } from "../outputPaths";
+import type { SaveOptions } from "../workshop/saveEntireManual";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
 
 export interface WiringFetchPageParams extends WiringFetchParams {
   vehicleId: string;
@@ -21,8 +36,12 @@ export default async function savePage(
   doc:
     | (WiringTableOfContentsEntry & { Type: "Page" })
     | (WiringTableOfContentsEntry & { Type: "BasicPage" }),
-  browserPage: Page,
-  folderPath: string
+  pages: PagePool,
+  folderPath: string,
+  manifest: Manifest,
+  outputPaths: OutputPaths,
+  options: SaveOptions,
+  paperSize?: PaperSize
 ): Promise<void> {
   // Need pageList per docNumber
   // Page lists for "Page" type documents is returned as ["001, "002", "003", etc]
@@ -39,62 +58,205 @@ export default async function savePage(
     JSON.stringify(pageList, null, 2)
   );
 
-  for (const subPage of pageList) {
-    console.log(`Saving page ${subPage} of ${doc.Title}...`);
+  // Basic book PDFs are named after their titles, which can be the same
+  const basicPages = (pageList as (string | BasicPagePageListItem)[]).filter(
+    (subPage): subPage is BasicPagePageListItem => typeof subPage !== "string"
+  );
+  const basicPagePaths = basicPages.length
+    ? await assignPaths(
+        outputPaths,
+        `Wiring pages/${relative(outputPaths.outputPath, folderPath)
+          .split(sep)
+          .join("/")}`,
+        basicPages.map((subPage) => ({
+          key: subPage.Value,
+          path: join(folderPath, sanitizeName(subPage.Text)),
+          suffix: ` (${subPage.Value})`,
+        }))
+      )
+    : new Map<string, string>();
 
-    if (typeof subPage !== "string") {
-      // page is a BasicPagePageListItem, download PDF
-      const pdfPath = join(folderPath, `${subPage.Text}.pdf`);
+  await pages.forEach(
+    pageList as (string | BasicPagePageListItem)[],
+    async (subPage) => {
+      const key = manifestKey(
+        "wiring",
+        doc.Number,
+        typeof subPage === "string" ? subPage : subPage.Value
+      );
 
-      await fetchBasicPage(pdfPath, params.book);
-      continue;
-    }
+      const pageLabel = typeof subPage === "string" ? subPage : subPage.Text;
 
-    const svg = await fetchSvg(
-      doc.Number,
-      subPage,
-      params.environment,
-      params.vehicleId,
-      params.book,
-      params.languageCode
-    );
+      // SVG titles come from inside the SVG, so rely on the files recorded last time
+      if (await isComplete(manifest, key)) {
+        console.log(
+          `Skipping page ${pageLabel} of ${doc.Title}, already saved.`
+        );
+        return;
+      }
 
-    // parse the SVG into a DOM for manipulation
-    const dom = new JSDOM(svg);
-    const svgElement = dom.window.document.querySelector("svg");
-    if (!svgElement) {
-      console.error(
-        `No SVG element found in Wiring SVG for ${doc.Title} ${subPage}`
-      );
-      continue;
-    }
+      if (typeof subPage !== "string") {
+        // basic books link straight to a PDF, no need for a browser page
+        await saveBasicPage(
+          params,
+          doc,
+          subPage,
+          `${basicPagePaths.get(subPage.Value)}.pdf`,
+          manifest,
+          key,
+          options
+        );
+        return;
+      }
 
-    svgElement.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+      await pages.use(async (browserPage) => {
+        console.log(`Saving page ${subPage} of ${doc.Title}...`);
 
-    let title = subPage;
+        try {
+          const description = `Page ${subPage} of ${doc.Title}`;
+          const svg = await retryInvalidContent(description, async () => {
+            const content = await fetchSvg(
+              doc.Number,
+              subPage,
+              params.environment,
+              params.vehicleId,
+              params.book,
+              params.languageCode
+            );
+            validateContent(content, "wiringSvg", description);
+            return content;
+          });
 
-    const headerElement = dom.window.document.getElementById("Header");
-    if (headerElement) {
-      const child = headerElement.firstElementChild;
-      if (child && child.textContent) {
-        title += ` ${sanitizeName(child.textContent)}`;
-      }
+          // parse the SVG into a DOM for manipulation
+          const dom = new JSDOM(svg);
+          const svgElement = dom.window.document.querySelector("svg");
+          // validateContent already checked there's one
+          if (!svgElement) {
+            throw new PTSError(
+              "invalidContent",
+              `No SVG element found in Wiring SVG for ${doc.Title} ${subPage}`
+            );
+          }
+
+          svgElement.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+
+          let title = subPage;
+
+          const headerElement = dom.window.document.getElementById("Header");
+          if (headerElement) {
+            const child = headerElement.firstElementChild;
+            if (child && child.textContent) {
+              title += ` ${sanitizeName(child.textContent)}`;
+            }
+          }
+
+          const svgString = dom.serialize();
+
+          // Save the SVG
+          const svgPath = join(folderPath, `${title}.svg`);
+          await writeFile(svgPath, svgString);
+
+          // Circuits, wire colours and components, for the wiring index
+          const termsPath = join(folderPath, `${title}${TERMS_EXTENSION}`);
+          await writeFile(
+            termsPath,
+            JSON.stringify(extractWiringTerms(extractSvgText(svgString)))
+          );
+
+          // Print as PDF
+          const pdfPath = join(folderPath, `${title}.pdf`);
+
+          // can't use getSvgUrl here because the SVG is too big
+          await browserPage.goto(`file:///${resolve(svgPath)}`);
+
+          // For the wiring viewer, while the SVG is open anyway
+          const hotspotsPath = join(
+            folderPath,
+            `${title}${HOTSPOTS_EXTENSION}`
+          );
+          await writeFile(
+            hotspotsPath,
+            JSON.stringify(await findHotspots(browserPage))
+          );
+
+          await printPDF(browserPage, pdfPath, paperSize);
+
+          await markComplete(manifest, key, [
+            svgPath,
+            pdfPath,
+            hotspotsPath,
+            termsPath,
+          ]);
+        } catch (e) {
+          await markFailed(manifest, key, e);
+
+          // no point carrying on if every other page will fail the same way
+          if (options.ignoreSaveErrors && !shouldAbort(e)) {
+            console.error(
+              `Continuing to download after error with page ${subPage} of ${doc.Title}:`,
+              e
+            );
+            return;
+          }
+          console.error(
+            `Encountered an error downloading page ${subPage} of ${doc.Title}`
+          );
+          throw e;
+        }
+      });
     }
+  );
+}
 
-    const svgString = dom.serialize();
+async function saveBasicPage(
+  params: WiringFetchPageParams,
+  doc: WiringTableOfContentsEntry,
+  subPage: BasicPagePageListItem,
+  // From assignPaths, so pages with the same title get their suffix
+  pdfPath: string,
+  manifest: Manifest,
+  key: string,
+  options: SaveOptions
+): Promise<void> {
+  console.log(`Saving page ${subPage.Text} of ${doc.Title}...`);
 
-    // Save the SVG
-    const svgPath = join(folderPath, `${title}.svg`);
-    await writeFile(svgPath, svgString);
+  // Value is usually the filename already, add the extension if it isn't
+  let filename = subPage.Value;
+  if (!/\.pdf$/i.test(filename)) {
+    filename += ".pdf";
+  }
 
-    // Print as PDF
-    const pdfPath = join(folderPath, `${title}.pdf`);
+  try {
+    const description = `Page ${subPage.Text} of ${doc.Title}`;
+    await retryInvalidContent(description, async () => {
+      const stream = await fetchBasicPage(filename, params.book);
+      await saveStream(stream, pdfPath);
 
-    // can't use getSvgUrl here because the SVG is too big
-    await browserPage.goto(`file:///${resolve(svgPath)}`);
-    await browserPage.pdf({
-      path: pdfPath,
-      landscape: true,
+      // error pages come back as HTML
+      if (!(await hasPDFSignature(pdfPath))) {
+        await unlink(pdfPath);
+        throw new PTSError(
+          "invalidContent",
+          `${filename} (page ${subPage.Text} of ${doc.Title}) isn't a PDF.`
+        );
+      }
     });
+  } catch (e) {
+    await markFailed(manifest, key, e);
+
+    // no point carrying on if every other page will fail the same way
+    if (options.ignoreSaveErrors && !shouldAbort(e)) {
+      console.error(
+        `Continuing to download after error with page ${subPage.Text} of ${doc.Title}:`,
+        e
+      );
+      return;
+    }
+    console.error(
+      `Encountered an error downloading page ${subPage.Text} of ${doc.Title}`
+    );
+    throw e;
   }
+
+  await markComplete(manifest, key, [pdfPath]);
 }
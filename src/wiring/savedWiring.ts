@@ -0,0 +1,130 @@
+import { readdir, readFile } from "fs/promises";
+import { basename, join } from "path";
+import { fileExists } from "../utils";
+import { getRecordedPaths, RecordedOutputPaths } from "../outputPaths";
+import {
+  isBasicPage,
+  isPage,
+  WiringTableOfContentsEntry,
+} from "./fetchTableOfContents";
+import type { Connector } from "./fetchConnectorList";
+import { planSectionPaths } from "./saveEntireWiring";
+import { connectorPathsGroup, planConnectorPaths } from "./saveConnector";
+import { HOTSPOTS_EXTENSION } from "./svgHotspots";
+import { TERMS_EXTENSION } from "./wiringTerms";
+
+// Helpers to find what a wiring download saved, after the fact. Paths are
+// relative to the output directory.
+
+export interface SavedWiringPage {
+  section: WiringTableOfContentsEntry;
+  // File name without the extension, like "001 Starting System"
+  pageName: string;
+  svgFile: string;
+  pdfFile: string;
+  // Only saved by newer versions of the downloader
+  hotspotsFile: string;
+  termsFile: string;
+  // Only saved with --wiringPNGs
+  pngFile: string;
+  thumbnailFile: string;
+}
+
+export interface SavedConnector {
+  connector: Connector;
+  // Folder connectors.json is in: Wiring/Connector Views, or just Wiring
+  // for basic books
+  folder: string;
+  // Face view PDF and pin-out JSON, without an extension
+  file: string;
+}
+
+const readJSON = async (path: string): Promise<any> =>
+  JSON.parse(await readFile(path, { encoding: "utf-8" }));
+
+// Returns undefined if there's no modern wiring download (there's no
+// Wiring/toc.json, or it's a pre-2003 GIF wiring download)
+export async function readWiringTableOfContents(
+  outputPath: string
+): Promise<WiringTableOfContentsEntry[] | undefined> {
+  const tocPath = join(outputPath, "Wiring", "toc.json");
+  if (!(await fileExists(tocPath))) {
+    return undefined;
+  }
+
+  const toc = await readJSON(tocPath);
+  return toc.length && "href" in toc[0] ? undefined : toc;
+}
+
+/**
+ * Lists the SVG wiring pages saved for every section, in table of contents
+ * order. Basic book PDFs aren't included, they have no text to go by.
+ */
+export async function readSavedWiringPages(
+  outputPath: string,
+  toc: WiringTableOfContentsEntry[],
+  recordedPaths: RecordedOutputPaths
+): Promise<SavedWiringPage[]> {
+  const sectionPaths = getRecordedPaths(
+    recordedPaths,
+    "Wiring",
+    planSectionPaths(toc, "Wiring")
+  );
+
+  const pages: SavedWiringPage[] = [];
+  for (const section of toc) {
+    if (!isPage(section) && !isBasicPage(section)) {
+      continue;
+    }
+
+    const sectionFolder = sectionPaths.get(section.Number)!;
+    let files: string[];
+    try {
+      files = await readdir(join(outputPath, sectionFolder));
+    } catch {
+      continue;
+    }
+
+    for (const file of files.filter((f) => f.endsWith(".svg")).sort()) {
+      const pageName = basename(file, ".svg");
+      pages.push({
+        section,
+        pageName,
+        svgFile: join(sectionFolder, file),
+        pdfFile: join(sectionFolder, `${pageName}.pdf`),
+        hotspotsFile: join(sectionFolder, `${pageName}${HOTSPOTS_EXTENSION}`),
+        termsFile: join(sectionFolder, `${pageName}${TERMS_EXTENSION}`),
+        pngFile: join(sectionFolder, `${pageName}.png`),
+        thumbnailFile: join(sectionFolder, `${pageName}.thumb.png`),
+      });
+    }
+  }
+
+  return pages;
+}
+
+export async function readSavedConnectors(
+  outputPath: string,
+  recordedPaths: RecordedOutputPaths
+): Promise<SavedConnector[]> {
+  const saved: SavedConnector[] = [];
+
+  for (const folder of [join("Wiring", "Connector Views"), "Wiring"]) {
+    const connectorsPath = join(outputPath, folder, "connectors.json");
+    if (!(await fileExists(connectorsPath))) {
+      continue;
+    }
+
+    const connectors: Connector[] = await readJSON(connectorsPath);
+    const paths = getRecordedPaths(
+      recordedPaths,
+      connectorPathsGroup(folder),
+      planConnectorPaths(connectors, folder)
+    );
+    for (const connector of connectors) {
+      saved.push({ connector, folder, file: paths.get(connector.Name)! });
+    }
+  }
+
+  return saved;
+}
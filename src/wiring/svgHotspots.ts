@@ -0,0 +1,73 @@
+import { Page } from "playwright";
+
+// Saved next to each wiring SVG, like "001 Starting System.hotspots.json"
+export const HOTSPOTS_EXTENSION = ".hotspots.json";
+
+// Where an ID (like C1147) is written on a wiring diagram. Coordinates are
+// fractions of the drawing's width and height, so they work at any zoom.
+export interface SvgHotspot {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Runs in the browser, on a page showing a wiring SVG. Connectors, splices
+// and grounds are a letter or two and a number: C1147, S101, G100, C2280B.
+const readHotspots = (): SvgHotspot[] => {
+  const root = document.documentElement as unknown as SVGSVGElement;
+  const viewBox = root.viewBox?.baseVal;
+  const box =
+    viewBox && viewBox.width
+      ? viewBox
+      : {
+          x: 0,
+          y: 0,
+          width: root.width.baseVal.value,
+          height: root.height.baseVal.value,
+        };
+  const toRoot = root.getScreenCTM()?.inverse();
+  if (!toRoot || !box.width || !box.height) {
+    return [];
+  }
+
+  const hotspots: SvgHotspot[] = [];
+  document.querySelectorAll("text").forEach((text) => {
+    const ids = (text.textContent || "").match(/\b[A-Z]{1,2}\d{2,5}[A-Z]?\b/g);
+    const ctm = text.getScreenCTM();
+    if (!ids || !ctm) {
+      return;
+    }
+
+    // Corners of the text's box, in the root's coordinates
+    const bbox = text.getBBox();
+    const matrix = toRoot.multiply(ctm);
+    const corners = [
+      [bbox.x, bbox.y],
+      [bbox.x + bbox.width, bbox.y],
+      [bbox.x, bbox.y + bbox.height],
+      [bbox.x + bbox.width, bbox.y + bbox.height],
+    ].map(([x, y]) => new DOMPoint(x, y).matrixTransform(matrix));
+    const xs = corners.map((p) => p.x);
+    const ys = corners.map((p) => p.y);
+
+    const x = (Math.min(...xs) - box.x) / box.width;
+    const y = (Math.min(...ys) - box.y) / box.height;
+    const width = (Math.max(...xs) - Math.min(...xs)) / box.width;
+    const height = (Math.max(...ys) - Math.min(...ys)) / box.height;
+
+    for (const id of new Set(ids)) {
+      hotspots.push({ id, x, y, width, height });
+    }
+  });
+
+  return hotspots;
+};
+
+/**
+ * Finds where connector, splice and ground IDs are written on the wiring
+ * SVG open in `page`, for the wiring viewer to make them clickable.
+ */
+export const findHotspots = (page: Page): Promise<SvgHotspot[]> =>
+  page.evaluate(readHotspots);
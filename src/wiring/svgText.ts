@@ -0,0 +1,44 @@
+const XML_ENTITIES: { [entity: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      // fromCodePoint throws on anything past the last Unicode code point
+      return Number.isNaN(code) || code > 0x10ffff
+        ? match
+        : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/**
+ * Returns the contents of every <text> element in a wiring SVG, in
+ * document order, with nested <tspan>s joined together.
+ *
+ * Wiring SVGs can be several megabytes, so this uses a regex rather than
+ * parsing the whole thing into a DOM.
+ */
+export function extractSvgText(svg: string): string[] {
+  const texts: string[] = [];
+
+  for (const match of svg.matchAll(/<text\b[^>]*>([\s\S]*?)<\/text>/g)) {
+    const text = decodeEntities(match[1].replace(/<[^>]+>/g, " "))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (text) {
+      texts.push(text);
+    }
+  }
+
+  return texts;
+}
@@ -0,0 +1,78 @@
+import { join } from "path";
+import { fileExists } from "../utils";
+import type { WiringCLIArgs } from "../processCLIArgs";
+import buildWiringIndex, {
+  readWiringIndex,
+  WIRING_INDEX_FILENAME,
+  WiringIndex,
+} from "./buildWiringIndex";
+
+function printPages(outputPath: string, index: WiringIndex, pages: number[]) {
+  for (const i of pages) {
+    const { cell, section, page, file } = index.pages[i];
+    console.log(`  ${cell} ${section} > ${page}`);
+    console.log(`    ${join(outputPath, file)}`);
+  }
+}
+
+export default async function wiringCommand({
+  outputPath,
+  query,
+  rebuildIndex,
+}: WiringCLIArgs) {
+  let index: WiringIndex | undefined;
+  if (
+    rebuildIndex ||
+    !(await fileExists(join(outputPath, "Wiring", WIRING_INDEX_FILENAME)))
+  ) {
+    console.log("Building wiring index...");
+    index = await buildWiringIndex(outputPath);
+    if (!index) {
+      console.log(`No wiring diagrams have been downloaded to ${outputPath}.`);
+      return;
+    }
+  } else {
+    index = await readWiringIndex(outputPath);
+  }
+
+  const upper = query.toUpperCase();
+  let found = false;
+
+  const circuit = index.circuits[upper];
+  if (circuit) {
+    found = true;
+    const colors = circuit.wireColors.length
+      ? ` (${circuit.wireColors.join(", ")})`
+      : "";
+    console.log(
+      `Circuit ${upper}${colors} is on ${circuit.pages.length} pages:`
+    );
+    printPages(outputPath, index, circuit.pages);
+    console.log();
+  }
+
+  const colorCircuits = index.wireColors[upper.replace("/", "-")];
+  if (colorCircuits) {
+    found = true;
+    console.log(`Circuits with ${upper} wires:`);
+    for (const id of colorCircuits.sort()) {
+      console.log(`  ${id} (${index.circuits[id].pages.length} pages)`);
+    }
+    console.log();
+  }
+
+  // component names are long, so any part of one will do
+  const lower = query.toLowerCase();
+  for (const [name, pages] of Object.entries(index.components).sort()) {
+    if (name.toLowerCase().includes(lower)) {
+      found = true;
+      console.log(`${name} is on ${pages.length} pages:`);
+      printPages(outputPath, index, pages);
+      console.log();
+    }
+  }
+
+  if (!found) {
+    console.log(`No circuit, wire colour or component matches "${query}".`);
+  }
+}
@@ -0,0 +1,149 @@
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import type { PagePool } from "../concurrency";
+import fetchPageList from "./fetchPageList";
+import { WiringTableOfContentsEntry } from "./fetchTableOfContents";
+import savePage, { WiringFetchPageParams } from "./savePage";
+import saveConnector from "./saveConnector";
+import { saveLocIndex } from "./saveLocIndex";
+import type { PaperSize } from "./paperSize";
+import type { SaveOptions } from "../workshop/saveEntireManual";
+import { OutputPaths } from "../outputPaths";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
+import { shouldAbort } from "../errors";
+
+// Where a wiring entry's files go
+export type WiringFolderPolicy =
+  // A folder of its own, named after the entry's title
+  | "section"
+  // Wiring/Connector Views, or just Wiring for basic books
+  | "connectors";
+
+// Everything saveEntireWiring passes on to the handlers
+export interface WiringHandlerContext {
+  params: WiringFetchPageParams;
+  pages: PagePool;
+  options: SaveOptions;
+  manifest: Manifest;
+  outputPaths: OutputPaths;
+  paperSize?: PaperSize;
+}
+
+export interface WiringHandler<
+  Doc extends WiringTableOfContentsEntry = WiringTableOfContentsEntry
+> {
+  folder: WiringFolderPolicy;
+  save: (
+    doc: Doc,
+    folderPath: string,
+    context: WiringHandlerContext
+  ) => Promise<void>;
+}
+
+type WiringHandlers = {
+  [Type in WiringTableOfContentsEntry["Type"]]: WiringHandler<
+    WiringTableOfContentsEntry & { Type: Type }
+  >;
+};
+
+export const WIRING_HANDLERS: WiringHandlers = {
+  Page: {
+    folder: "section",
+    save: (doc, folderPath, context) =>
+      savePage(
+        context.params,
+        doc,
+        context.pages,
+        folderPath,
+        context.manifest,
+        context.outputPaths,
+        context.options,
+        context.paperSize
+      ),
+  },
+  BasicPage: {
+    folder: "section",
+    save: (doc, folderPath, context) =>
+      savePage(
+        context.params,
+        doc,
+        context.pages,
+        folderPath,
+        context.manifest,
+        context.outputPaths,
+        context.options,
+        context.paperSize
+      ),
+  },
+  Connectors: {
+    folder: "connectors",
+    save: (doc, folderPath, context) =>
+      saveConnector(
+        context.params,
+        doc,
+        context.pages,
+        folderPath,
+        context.manifest,
+        context.outputPaths,
+        context.paperSize
+      ),
+  },
+  LocIndex: {
+    folder: "connectors",
+    save: (doc, folderPath, { params, manifest }) =>
+      saveLocIndex(params, doc, folderPath, manifest),
+  },
+};
+
+/**
+ * For entry types PTS has added since this was written. Saves the entry
+ * itself and its page list (if PTS has one for it) so there's something
+ * to go on, rather than skipping it.
+ */
+export const FALLBACK_WIRING_HANDLER: WiringHandler = {
+  folder: "section",
+  save: async (doc, folderPath, { params, manifest }) => {
+    const entryPath = join(folderPath, "entry.json");
+    const pageListPath = join(folderPath, "pageList.json");
+    const key = manifestKey("wiring", doc.Number);
+
+    if (await isComplete(manifest, key, [entryPath, pageListPath])) {
+      console.log(`Skipping ${doc.Title}, already saved.`);
+      return;
+    }
+
+    console.log(
+      `Saving ${doc.Title}, which has a wiring type (${doc.Type}) this downloader doesn't know. Only its table of contents entry and page list will be saved.`
+    );
+    await writeFile(entryPath, JSON.stringify(doc, null, 2));
+
+    try {
+      const pageList = await fetchPageList({
+        ...params,
+        cell: doc.Number,
+        title: doc.Title,
+        page: "1",
+      });
+      await writeFile(pageListPath, JSON.stringify(pageList, null, 2));
+      await markComplete(manifest, key, [entryPath, pageListPath]);
+    } catch (e) {
+      await markFailed(manifest, key, e);
+      if (shouldAbort(e)) {
+        throw e;
+      }
+      console.error(`Couldn't fetch a page list for ${doc.Title}:`, e);
+    }
+  },
+};
+
+export const getWiringHandler = (
+  doc: WiringTableOfContentsEntry
+): WiringHandler =>
+  (WIRING_HANDLERS[doc.Type] as WiringHandler | undefined) ||
+  FALLBACK_WIRING_HANDLER;
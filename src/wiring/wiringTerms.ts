@@ -0,0 +1,84 @@
+// Saved next to each wiring SVG, like "001 Starting System.terms.json"
+export const TERMS_EXTENSION = ".terms.json";
+
+// What one wiring page mentions, from the text in its SVG
+export interface WiringTerms {
+  circuits: string[];
+  // Wire colour of each circuit labelled with one, like { CBP15: "BK-YE" }
+  wireColors: { [circuit: string]: string };
+  components: string[];
+}
+
+// Ford's two letter colour codes. Striped wires are written BASE-STRIPE
+// (or BASE/STRIPE), like BK-YE.
+const COLORS = [
+  "BK",
+  "BN",
+  "BU",
+  "DB",
+  "DG",
+  "GN",
+  "GY",
+  "LB",
+  "LG",
+  "NA",
+  "OG",
+  "PK",
+  "RD",
+  "SR",
+  "TN",
+  "VT",
+  "WH",
+  "YE",
+].join("|");
+const COLOR_REGEX = new RegExp(
+  `\\b(?:${COLORS})(?:[-/](?:${COLORS}))?\\b`,
+  "g"
+);
+
+// Circuits have a two to four letter prefix, like CBP15, VDB06 or SBB12.
+// One letter prefixes are connectors, splices and grounds (C1147, S101).
+const CIRCUIT_REGEX = /\b[A-Z]{2,4}\d{1,4}[A-Z]?\b/g;
+
+const isComponentName = (text: string): boolean =>
+  text.length >= 4 &&
+  text.length <= 80 &&
+  /^[A-Z]/.test(text) &&
+  /[a-z]/.test(text) &&
+  text.split(" ").length >= 2 &&
+  (text.match(/[A-Za-z]/g) || []).length >= text.length / 2;
+
+/**
+ * Picks out the circuits, wire colours and component names from the text
+ * of a wiring SVG (see extractSvgText). A label is often split over two
+ * text elements, so a colour on its own belongs to the circuit just before.
+ */
+export function extractWiringTerms(texts: string[]): WiringTerms {
+  const circuits = new Set<string>();
+  const components = new Set<string>();
+  const wireColors: { [circuit: string]: string } = {};
+  let lastCircuit: string | undefined;
+
+  for (const text of texts) {
+    const textCircuits = text.match(CIRCUIT_REGEX) || [];
+    const textColors = text.match(COLOR_REGEX) || [];
+    textCircuits.forEach((circuit) => circuits.add(circuit));
+
+    if (textCircuits.length === 1 && textColors.length === 1) {
+      wireColors[textCircuits[0]] = textColors[0].replace("/", "-");
+    } else if (!textCircuits.length && textColors.length === 1 && lastCircuit) {
+      wireColors[lastCircuit] ??= textColors[0].replace("/", "-");
+    }
+    lastCircuit = textCircuits.length === 1 ? textCircuits[0] : undefined;
+
+    if (!textCircuits.length && !textColors.length && isComponentName(text)) {
+      components.add(text);
+    }
+  }
+
+  return {
+    circuits: Array.from(circuits).sort(),
+    wireColors,
+    components: Array.from(components).sort(),
+  };
+}
@@ -0,0 +1,173 @@
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { JSDOM } from "jsdom";
+import { fileExists } from "../utils";
+import { getDocumentKind, workshopPathKey } from "./documentPaths";
+
+// docIDs referred to by saved pages that weren't downloaded
+export const EXTERNAL_REFERENCES_FILENAME = "external-references.json";
+
+export interface CrossReferences {
+  // Where each workshop page being downloaded is saved, by docID, without
+  // an extension
+  paths: Map<string, string>;
+  // Those of `paths` an earlier run saved as a PDF only, without HTML
+  pdfOnly: Set<string>;
+  // docIDs referred to that aren't being downloaded, and the pages
+  // referring to them
+  outside: Map<string, Set<string>>;
+}
+
+export const createCrossReferences = (): CrossReferences => ({
+  paths: new Map(),
+  pdfOnly: new Set(),
+  outside: new Map(),
+});
+
+// Every document in `toc`, with its workshopPathKey
+function listDocuments(
+  toc: any,
+  tocPath: string[] = []
+): { docID: string; pathKey: string }[] {
+  return Object.entries(toc).flatMap(([name, docID]) => {
+    const entryPath = [...tocPath, name];
+    return typeof docID !== "string" || docID.length === 0
+      ? listDocuments(docID, entryPath)
+      : [{ docID, pathKey: workshopPathKey(entryPath) }];
+  });
+}
+
+/**
+ * Adds the workshop pages in `toc`, the whole table of contents, that
+ * links can point to to `references.paths`: those in `downloading` (what's
+ * left of it after --include/--exclude) and those an earlier run saved.
+ * Pages are saved in parallel, so this has to be done before the first
+ * one links to the others. A docID that's in the table of contents more
+ * than once links to the first one.
+ */
+export async function collectDocumentPaths(
+  toc: any,
+  downloading: any,
+  // From planWorkshopPaths
+  documentPaths: Map<string, string>,
+  references: CrossReferences
+): Promise<void> {
+  const downloadingKeys = new Set(
+    listDocuments(downloading).map(({ pathKey }) => pathKey)
+  );
+
+  for (const { docID, pathKey } of listDocuments(toc)) {
+    if (getDocumentKind(docID) !== "page" || references.paths.has(docID)) {
+      continue;
+    }
+    // every saved page has a PDF, whether or not it was saved as HTML too
+    const path = documentPaths.get(pathKey)!;
+    if (downloadingKeys.has(pathKey)) {
+      references.paths.set(docID, path);
+    } else if (await fileExists(`${path}.pdf`)) {
+      references.paths.set(docID, path);
+      if (!(await fileExists(`${path}.html`))) {
+        references.pdfOnly.add(path);
+      }
+    }
+  }
+}
+
+// PTS opens a document by its searchNumber (what fetchManualPage posts),
+// so links to other documents name it: in a Proc URL's query string, as a
+// script argument like searchNumber: 'G1234567', or in a data attribute.
+// Nothing else on the link is taken for a docID, since part numbers and
+// connector IDs look just like them.
+const SEARCH_NUMBER_REGEX =
+  /\b(?:searchNumber|docID)\s*[=:]\s*['"]?([A-Za-z0-9]+)/gi;
+const SEARCH_NUMBER_ATTRIBUTES = ["data-searchnumber", "data-docid"];
+
+function findDocIDs(link: Element): string[] {
+  const docIDs = new Set<string>();
+  for (const attribute of ["href", "onclick"]) {
+    const value = link.getAttribute(attribute) || "";
+    for (const match of value.matchAll(SEARCH_NUMBER_REGEX)) {
+      docIDs.add(match[1]);
+    }
+  }
+  for (const attribute of SEARCH_NUMBER_ATTRIBUTES) {
+    const value = link.getAttribute(attribute)?.trim();
+    if (value) {
+      docIDs.add(value);
+    }
+  }
+  return Array.from(docIDs);
+}
+
+/**
+ * Points links in a workshop page that open another document to where
+ * that document is saved, using `toHref` to turn its path (without an
+ * extension) into a URL. Links to documents that aren't being downloaded
+ * are left alone and recorded in `references.outside` under `pageName`.
+ */
+export function linkCrossReferences(
+  html: string,
+  pageName: string,
+  references: CrossReferences,
+  toHref: (path: string) => string
+): string {
+  const dom = new JSDOM(html);
+  const { document } = dom.window;
+
+  for (const link of Array.from(document.querySelectorAll("a"))) {
+    const docIDs = findDocIDs(link);
+    const linked = docIDs.find((docID) => references.paths.has(docID));
+    if (linked) {
+      link.setAttribute("href", toHref(references.paths.get(linked)!));
+      link.removeAttribute("onclick");
+      link.removeAttribute("target");
+      continue;
+    }
+
+    for (const docID of docIDs) {
+      const referrers = references.outside.get(docID) || new Set();
+      referrers.add(pageName);
+      references.outside.set(docID, referrers);
+    }
+  }
+
+  return dom.serialize();
+}
+
+/**
+ * Writes the docIDs pages refer to that weren't downloaded to
+ * external-references.json in `publicationPath`. Pages skipped because a
+ * previous run saved them aren't read again, so what that run found is
+ * kept, less anything that's been downloaded since.
+ */
+export async function saveExternalReferences(
+  publicationPath: string,
+  references: CrossReferences
+): Promise<number> {
+  const path = join(publicationPath, EXTERNAL_REFERENCES_FILENAME);
+  const outside: { [docID: string]: string[] } = {};
+
+  if (await fileExists(path)) {
+    try {
+      Object.assign(
+        outside,
+        JSON.parse(await readFile(path, { encoding: "utf-8" }))
+      );
+    } catch (e) {
+      console.error(`Couldn't read ${path}, starting it over: ${e}`);
+    }
+  }
+  for (const [docID, referrers] of references.outside) {
+    outside[docID] = Array.from(
+      new Set([...(outside[docID] || []), ...referrers])
+    ).sort();
+  }
+  for (const docID of Object.keys(outside)) {
+    if (references.paths.has(docID)) {
+      delete outside[docID];
+    }
+  }
+
+  await writeFile(path, JSON.stringify(outside, null, 2));
+  return Object.keys(outside).length;
+}
@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import { extname, join } from "path";
+import { sanitizeName } from "../utils";
+import type { PlannedPath } from "../outputPaths";
+
+// What a docID in toc.json points to
+export type WorkshopDocumentKind = "page" | "externalPDF" | "relativePath";
+
+export function getDocumentKind(docID: string): WorkshopDocumentKind {
+  if (docID.startsWith("http") && docID.includes(".pdf")) {
+    return "externalPDF";
+  } else if (docID.includes("/")) {
+    return "relativePath";
+  }
+  return "page";
+}
+
+// External PDFs are saved under the name they have on Ford's server
+export const getExternalPDFFilename = (docID: string): string =>
+  docID.slice(docID.lastIndexOf("/") + 1);
+
+// Filename (without extension) for a workshop page
+export function getDocumentFilename(name: string, docID: string): string {
+  let filename = sanitizeName(name);
+  // 255 is the max filename length on most filesystems, but 200 should be enough regardless
+  if (filename.length > 200) {
+    filename =
+      // 255 = max filename length, 18 = length of " ( truncated).html",
+      // docID.length = length of docID
+
+      // including the docID in the filename to prevent collisions as names may differ
+      // at the end rather than in the first ~255 characters
+      filename.slice(0, 254 - 19 - docID.length) + ` (${docID} truncated)`;
+  }
+  return filename;
+}
+
+// PTS doesn't say what relative paths in the table of contents are
+// relative to, so these are tried in order until one doesn't 404: Ford's
+// content folder (where basic wiring pages are served from), the folder
+// workshop pages are served from (which relative links in them resolve
+// against), and the server itself. Paths starting with / are the same
+// for all of them.
+const RELATIVE_PATH_BASE_URLS = [
+  "https://www.fordservicecontent.com/Ford_Content/",
+  "https://www.fordservicecontent.com/Ford_Content/PublicationRuntimeRefreshPTS//publication/",
+  "https://www.fordservicecontent.com/",
+];
+
+export const getRelativePathURLs = (docID: string): string[] =>
+  Array.from(
+    new Set(RELATIVE_PATH_BASE_URLS.map((base) => new URL(docID, base).href))
+  );
+
+const CONTENT_TYPE_EXTENSIONS: { [contentType: string]: string } = {
+  "application/pdf": ".pdf",
+  "text/html": ".html",
+  "image/gif": ".gif",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/svg+xml": ".svg",
+  "image/tiff": ".tif",
+};
+
+const KNOWN_EXTENSIONS = [
+  ...Object.values(CONTENT_TYPE_EXTENSIONS),
+  ".htm",
+  ".jpeg",
+  ".tiff",
+];
+
+/**
+ * Extension for a relative-path document. It comes from the URL if it has
+ * a recognizable one, otherwise from the Content-Type the server sent.
+ * Returns undefined if neither is known, like before the document has
+ * been downloaded.
+ */
+export function getRelativePathExtension(
+  docID: string,
+  contentType?: string
+): string | undefined {
+  const urlPath = new URL(getRelativePathURLs(docID)[0]).pathname;
+  const urlExtension = urlPath
+    .slice(urlPath.lastIndexOf("/") + 1)
+    .match(/\.[a-z0-9]+$/i)?.[0]
+    .toLowerCase();
+
+  if (urlExtension && KNOWN_EXTENSIONS.includes(urlExtension)) {
+    return urlExtension;
+  }
+  return (
+    contentType &&
+    (CONTENT_TYPE_EXTENSIONS[contentType.split(";")[0].trim()] || ".bin")
+  );
+}
+
+// Extension of the file a document is saved as (pages also get a .html
+// with --saveHTML), or undefined for a relative-path document of unknown type
+export function getDocumentExtension(
+  docID: string,
+  contentType?: string
+): string | undefined {
+  const kind = getDocumentKind(docID);
+  if (kind === "externalPDF") {
+    // they're PDFs even when the URL doesn't end in .pdf
+    return extname(getExternalPDFFilename(docID)) || ".pdf";
+  } else if (kind === "relativePath") {
+    return getRelativePathExtension(docID, contentType);
+  }
+  return ".pdf";
+}
+
+// Name of the paths.json group a workshop manual's paths are recorded
+// under. `folder` is where it's saved, relative to the output directory:
+// "" unless params.json lists publications.
+export const workshopPathsGroup = (folder: string): string =>
+  folder ? `Workshop/${folder}` : "Workshop";
+
+// Identifies a document by where it is in the table of contents, since
+// the same docID can be in more than one place
+export const workshopPathKey = (tocPath: string[]): string =>
+  tocPath.join(" -> ");
+
+const shortHash = (text: string): string =>
+  createHash("sha1").update(text).digest("hex").slice(0, 8);
+
+/**
+ * Where every document in a workshop table of contents would be saved,
+ * without extensions, for resolvePaths to check for collisions. Colliding
+ * pages get their docID added, and files linked by URL a hash of it.
+ */
+export function planWorkshopPaths(toc: any, path: string): PlannedPath[] {
+  const planned: PlannedPath[] = [];
+
+  const walk = (branch: any, folder: string, tocPath: string[]) => {
+    for (const [name, docID] of Object.entries(branch)) {
+      const entryPath = [...tocPath, name];
+
+      if (typeof docID !== "string" || docID.length === 0) {
+        walk(docID, join(folder, sanitizeName(name)), entryPath);
+        continue;
+      }
+
+      const kind = getDocumentKind(docID);
+      if (kind === "externalPDF") {
+        // a URL ending in / has no name to go by
+        const filename = getExternalPDFFilename(docID) || shortHash(docID);
+        const extension = extname(filename);
+        planned.push({
+          key: workshopPathKey(entryPath),
+          // slice(0, -0) would be empty
+          path: join(
+            folder,
+            extension ? filename.slice(0, -extension.length) : filename
+          ),
+          suffix: ` (${shortHash(docID)})`,
+        });
+        continue;
+      }
+
+      planned.push({
+        key: workshopPathKey(entryPath),
+        path: join(folder, getDocumentFilename(name, docID)),
+        suffix: kind === "page" ? ` (${docID})` : ` (${shortHash(docID)})`,
+      });
+    }
+  };
+
+  walk(toc, path, []);
+  return planned;
+}
@@ -21,12 +21,16 @@ export interface FetchManualPageParams {
   WiringBookTitle: string;
 }
 
+// Also the base for relative URLs in the page
+export const MANUAL_PAGE_URL =
+  "https://www.fordservicecontent.com/Ford_Content/PublicationRuntimeRefreshPTS//publication/Proc?environment=prod_1_3_362022";
+
 export default async function fetchManualPage(
   params: FetchManualPageParams
 ): Promise<string> {
   const req = await client({
     method: "POST",
-    url: "https://www.fordservicecontent.com/Ford_Content/PublicationRuntimeRefreshPTS//publication/Proc?environment=prod_1_3_362022",
+    url: MANUAL_PAGE_URL,
     headers: {
       "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
     },
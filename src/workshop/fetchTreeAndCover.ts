@@ -2,6 +2,9 @@ import client from "../client";
 import { stringify } from "qs";
 import { FetchManualPageParams } from "./fetchManualPage";
 import { JSDOM } from "jsdom";
+import { join } from "path";
+import { sanitizeName } from "../utils";
+import { Config, DEFAULT_PUBLICATION, PublicationConfig } from "../readConfig";
 
 export interface FetchTreeAndCoverParams extends FetchManualPageParams {
   CategoryDescription: string;
@@ -9,8 +12,49 @@ export interface FetchTreeAndCoverParams extends FetchManualPageParams {
   environment?: string;
 }
 
+// The publications to download: the ones in params.json,
+// or just the workshop manual if there aren't any.
+export const getPublications = (config: Config): PublicationConfig[] =>
+  config.publications?.length ? config.publications : [DEFAULT_PUBLICATION];
+
+// Where a publication is saved: the output directory itself if params.json
+// doesn't list publications, so existing downloads keep their layout.
+export const getPublicationOutputPath = (
+  outputPath: string,
+  config: Config,
+  publication: PublicationConfig
+): string =>
+  config.publications?.length
+    ? join(outputPath, sanitizeName(publication.name))
+    : outputPath;
+
+// Workshop params with the publication's book overrides applied
+export const getPublicationPageParams = (
+  config: Config,
+  publication: PublicationConfig
+): FetchManualPageParams => ({
+  ...config.workshop,
+  book: publication.book || config.workshop.book,
+  bookTitle: publication.bookTitle || config.workshop.bookTitle,
+  booktype: publication.booktype || config.workshop.booktype,
+});
+
+export const getTreeAndCoverParams = (
+  config: Config,
+  publication: PublicationConfig = DEFAULT_PUBLICATION
+): FetchTreeAndCoverParams => ({
+  ...getPublicationPageParams(config, publication),
+  CategoryDescription: publication.CategoryDescription,
+  category: publication.category,
+  environment: config.wiring.environment,
+});
+
 export default async function fetchTreeAndCover(
-  params: FetchTreeAndCoverParams
+  params: FetchTreeAndCoverParams,
+  publication: Pick<
+    PublicationConfig,
+    "publicationType" | "bookCode"
+  > = DEFAULT_PUBLICATION
 ): Promise<{ tableOfContents: any; pageHTML: string }> {
   const _params = {
     ...params,
@@ -20,7 +64,7 @@ export default async function fetchTreeAndCover(
 
   const req = await client({
     method: "POST",
-    url: `https://www.fordservicecontent.com/Ford_Content/PublicationRuntimeRefreshPTS//publication/${params.environment}/TreeAndCover/workshop/${params.category}/~WSMX/${params.vehicleId}`,
+    url: `https://www.fordservicecontent.com/Ford_Content/PublicationRuntimeRefreshPTS//publication/${params.environment}/TreeAndCover/${publication.publicationType}/${params.category}/${publication.bookCode}/${params.vehicleId}`,
     params: {
       bookTitle: params.bookTitle,
       WiringBookTitle: params.WiringBookTitle,
@@ -111,6 +155,7 @@ function processTableOfContents(toc: string): {
   imageElement?.insertAdjacentHTML(
     "afterend",
     "<h1><strong>Links below do not work.</strong></h1><p>This table of contents is for reference only. " +
+      "Open index.html, next to this file, to browse the downloaded manual. " +
       "Manual downloaded using <a href='https://github.com/iamtheyammer/fetch-ford-service-manuals'>iamtheyammer's Ford manual downloader.</a> " +
       "Refer to the README for more information.</p>"
   );
@@ -1,10 +1,37 @@
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, unlink, writeFile } from "fs/promises";
 import { join, resolve } from "path";
-import fetchManualPage, { FetchManualPageParams } from "./fetchManualPage";
+import { pathToFileURL } from "url";
+import fetchManualPage, {
+  FetchManualPageParams,
+  MANUAL_PAGE_URL,
+} from "./fetchManualPage";
+import { AssetStore, localizeHTML, relativeHref } from "../assets";
 import client from "../client";
-import { Page } from "playwright";
+import { PagePool } from "../concurrency";
 import { CLIArgs } from "../processCLIArgs";
-import saveStream, { sanitizeName } from "../utils";
+import saveStream, { hasPDFSignature, sanitizeName } from "../utils";
+import {
+  Manifest,
+  isComplete,
+  manifestKey,
+  markComplete,
+  markFailed,
+} from "../manifest";
+import { PTSError, getResponseStatus, shouldAbort } from "../errors";
+import { OutputPaths, recordFile } from "../outputPaths";
+import {
+  retryInvalidContent,
+  validateContent,
+  validateFile,
+} from "../validateContent";
+import {
+  getDocumentExtension,
+  getDocumentFilename,
+  getDocumentKind,
+  getRelativePathURLs,
+  workshopPathKey,
+} from "./documentPaths";
+import { CrossReferences, linkCrossReferences } from "./crossReferences";
 
 export type SaveOptions = Pick<CLIArgs, "saveHTML" | "ignoreSaveErrors">;
 
@@ -12,112 +39,296 @@ export default async function saveEntireManual(
   path: string,
   toc: any,
   fetchPageParams: FetchManualPageParams,
-  browserPage: Page,
-  options: SaveOptions
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  assets: AssetStore,
+  // From planWorkshopPaths, so colliding names get their suffix
+  documentPaths: Map<string, string>,
+  references: CrossReferences,
+  // To record the names of relative-path files, under the group
+  // documentPaths was assigned as
+  outputPaths: OutputPaths,
+  pathsGroup: string,
+  tocPath: string[] = []
 ) {
-  const exploded = Object.entries(toc);
-
-  for (let i = 0; i < exploded.length; i++) {
-    const [name, docID] = exploded[i];
-
+  // The page pool (and the client's request limits) decide how many
+  // entries are saved in parallel
+  await pages.forEach(Object.entries(toc), async ([name, docID]) => {
     if (typeof docID === "string" && docID.length > 0) {
       // download and save document
-      if (docID.startsWith("http") && docID.includes(".pdf")) {
-        console.log(`Downloading manual PDF ${name} ${docID}`);
+      const pathKey = workshopPathKey([...tocPath, name]);
+      await saveDocument(
+        documentPaths.get(pathKey)!,
+        name,
+        docID,
+        fetchPageParams,
+        pages,
+        options,
+        manifest,
+        assets,
+        references,
+        { outputPaths, group: pathsGroup, key: pathKey }
+      );
+      return;
+    }
 
-        try {
-          const pdfReq = await client({
-            url: docID,
-            responseType: "stream",
-          });
+    // create folder and traverse
+    const newPath = join(path, sanitizeName(name));
 
-          const filePath = join(
-            path,
-            `/${docID.slice(docID.lastIndexOf("/"))}`
-          );
-          await saveStream(pdfReq.data, filePath);
-        } catch (e) {
-          console.error(`Error saving file ${name} with url ${docID}: ${e}`);
-        }
-        continue;
-      } else if (docID.includes("/")) {
-        console.error(`Skipping relative path ${docID} for name ${name}`);
-        continue;
+    try {
+      await mkdir(newPath, { recursive: true });
+    } catch (e) {
+      if ((e as any).code === "EEXIST") {
+        console.log(
+          `Not creating folder ${newPath} because it already exists.`
+        );
       }
+    }
 
-      console.log(
-        `Downloading manual page ${name} as ${
-          options.saveHTML ? "HTML, " : ""
-        }PDF (docID: ${docID})`
-      );
-      let filename = sanitizeName(name);
-      // 255 is the max filename length on most filesystems, but 200 should be enough regardless
-      if (filename.length > 200) {
-        filename =
-          // 255 = max filename length, 18 = length of " ( truncated).html",
-          // docID.length = length of docID
-
-          // including the docID in the filename to prevent collisions as names may differ
-          // at the end rather than in the first ~255 characters
-          filename.slice(0, 254 - 19 - docID.length) + ` (${docID} truncated)`;
-
-        console.log(`-> Truncating filename, learn more in the README`);
+    await saveEntireManual(
+      newPath,
+      docID,
+      fetchPageParams,
+      pages,
+      options,
+      manifest,
+      assets,
+      documentPaths,
+      references,
+      outputPaths,
+      pathsGroup,
+      [...tocPath, name]
+    );
+  });
+}
+
+// Where a document's file name is recorded in paths.json, for files whose
+// extension isn't known until they're downloaded
+interface RecordedFile {
+  outputPaths: OutputPaths;
+  group: string;
+  key: string;
+}
+
+async function saveDocument(
+  // Where to save the document, without an extension
+  path: string,
+  name: string,
+  docID: string,
+  fetchPageParams: FetchManualPageParams,
+  pages: PagePool,
+  options: SaveOptions,
+  manifest: Manifest,
+  assets: AssetStore,
+  references: CrossReferences,
+  recordedFile: RecordedFile
+): Promise<void> {
+  const key = manifestKey("workshop", docID);
+  const kind = getDocumentKind(docID);
+
+  if (kind === "externalPDF") {
+    const filePath = path + getDocumentExtension(docID);
+
+    if (await isComplete(manifest, key, [filePath])) {
+      console.log(`Skipping manual PDF ${name}, already downloaded.`);
+      return;
+    }
+
+    console.log(`Downloading manual PDF ${name} ${docID}`);
+
+    try {
+      await retryInvalidContent(`Manual PDF ${name}`, async () => {
+        const pdfReq = await client({
+          url: docID,
+          responseType: "stream",
+        });
+        await saveStream(pdfReq.data, filePath);
+
+        // error pages come back as HTML
+        if (!(await hasPDFSignature(filePath))) {
+          await unlink(filePath);
+          throw new PTSError("invalidContent", `${docID} isn't a PDF.`);
+        }
+      });
+      await markComplete(manifest, key, [filePath]);
+    } catch (e) {
+      console.error(`Error saving file ${name} with url ${docID}: ${e}`);
+      await markFailed(manifest, key, e);
+      if (shouldAbort(e)) {
+        throw e;
       }
+    }
+    return;
+  } else if (kind === "relativePath") {
+    await saveRelativePathDocument(path, name, docID, manifest, recordedFile);
+    return;
+  }
+
+  if (getDocumentFilename(name, docID) !== sanitizeName(name)) {
+    console.log(`-> Truncating filename, learn more in the README`);
+  }
+
+  const htmlPath = resolve(`${path}.html`);
+  const pdfPath = `${path}.pdf`;
+  const expectedFiles = options.saveHTML ? [htmlPath, pdfPath] : [pdfPath];
 
-      try {
-        const pageHTML = await fetchManualPage({
+  if (await isComplete(manifest, key, expectedFiles)) {
+    console.log(`Skipping manual page ${name}, already downloaded.`);
+    return;
+  }
+
+  await pages.use(async (browserPage) => {
+    console.log(
+      `Downloading manual page ${name} as ${
+        options.saveHTML ? "HTML, " : ""
+      }PDF (docID: ${docID})`
+    );
+
+    try {
+      // how pages with links to documents that weren't downloaded are listed
+      const referrer = `${name} (${docID})`;
+      const description = `Manual page ${name} (docID ${docID})`;
+      const pageHTML = await retryInvalidContent(description, async () => {
+        const html = await fetchManualPage({
           ...fetchPageParams,
           searchNumber: docID,
         });
+        validateContent(html, "workshopPage", description);
+        return html;
+      });
 
-        if (options.saveHTML) {
-          const htmlPath = resolve(join(path, `/${filename}.html`));
-          await writeFile(htmlPath, pageHTML);
-        }
+      // with its images and stylesheets saved, and links to other pages
+      // pointing to their files, so it works offline
+      if (options.saveHTML) {
+        const html = linkCrossReferences(
+          await localizeHTML(
+            pageHTML,
+            MANUAL_PAGE_URL,
+            htmlPath,
+            assets,
+            () => undefined
+          ),
+          referrer,
+          references,
+          (path) =>
+            relativeHref(
+              htmlPath,
+              resolve(
+                references.pdfOnly.has(path) ? `${path}.pdf` : `${path}.html`
+              )
+            )
+        );
+        await writeFile(htmlPath, html);
+      }
+
+      // PDFs can't have relative links, so these only work where the
+      // manual was downloaded to
+      const pdfHTML = linkCrossReferences(
+        pageHTML,
+        referrer,
+        references,
+        (path) => pathToFileURL(resolve(`${path}.pdf`)).href
+      );
+      await browserPage.setContent(pdfHTML, { waitUntil: "load" });
+      // removes this little color-coded thing that doesn't load properly
+      // in Playwright, just says "Workshop Manual Graphics Training"...
+      await browserPage.evaluate(
+        'document.querySelectorAll("body > div > table > tbody > tr > td:nth-child(2)").forEach(e => e.remove())'
+      );
+      await browserPage.pdf({
+        path: pdfPath,
+      });
 
-        await browserPage.setContent(pageHTML, { waitUntil: "load" });
-        // removes this little color-coded thing that doesn't load properly
-        // in Playwright, just says "Workshop Manual Graphics Training"...
-        await browserPage.evaluate(
-          'document.querySelectorAll("body > div > table > tbody > tr > td:nth-child(2)").forEach(e => e.remove())'
+      await markComplete(manifest, key, expectedFiles);
+    } catch (e) {
+      await markFailed(manifest, key, e);
+
+      // no point carrying on if every other page will fail the same way
+      if (options.ignoreSaveErrors && !shouldAbort(e)) {
+        console.error(
+          `Continuing to download after error with ${name} (docID ${docID}):`,
+          e
         );
-        await browserPage.pdf({
-          path: join(path, `/${filename}.pdf`),
-        });
-      } catch (e) {
-        if (options.ignoreSaveErrors) {
-          console.error(
-            `Continuing to download after error with ${name} (docID ${docID}):`,
-            e
-          );
-        } else {
-          console.error(
-            `Encountered an error downloading ${name} (docID ${docID})`
-          );
+      } else {
+        console.error(
+          `Encountered an error downloading ${name} (docID ${docID})`
+        );
+        throw e;
+      }
+    }
+  });
+}
+
+// Relative paths point straight at a file on Ford's server: an HTML page,
+// a PDF or an image. It's saved as-is, named after the TOC entry.
+async function saveRelativePathDocument(
+  path: string,
+  name: string,
+  docID: string,
+  manifest: Manifest,
+  recordedFile: RecordedFile
+): Promise<void> {
+  const key = manifestKey("workshop", docID);
+  const { outputPaths, group } = recordedFile;
+  // Without an extension in the URL, the file is whatever a previous run
+  // recorded it as
+  const extension = getDocumentExtension(docID);
+  const recorded = outputPaths.files[group]?.[recordedFile.key];
+  const knownFile = extension
+    ? path + extension
+    : recorded && join(outputPaths.outputPath, recorded);
+
+  if (await isComplete(manifest, key, knownFile ? [knownFile] : undefined)) {
+    console.log(`Skipping manual file ${name}, already downloaded.`);
+    return;
+  }
+
+  const urls = getRelativePathURLs(docID);
+  const description = `Manual file ${name} (${docID})`;
+  try {
+    const filePath = await retryInvalidContent(description, async () => {
+      for (const [i, url] of urls.entries()) {
+        console.log(`Downloading manual file ${name} from ${url}`);
+        let req;
+        try {
+          req = await client({
+            url,
+            responseType: "stream",
+          });
+        } catch (e) {
+          if (getResponseStatus(e) === 404 && i < urls.length - 1) {
+            continue;
+          }
           throw e;
         }
-      }
-    } else {
-      // create folder and traverse
-      const newPath = join(path, sanitizeName(name));
-
-      try {
-        await mkdir(newPath, { recursive: true });
-      } catch (e) {
-        if ((e as any).code === "EEXIST") {
-          console.log(
-            `Not creating folder ${newPath} because it already exists.`
-          );
+
+        const filePath =
+          path + getDocumentExtension(docID, req.headers["content-type"]);
+        await saveStream(req.data, filePath);
+
+        // login and error pages come back with a 200 too
+        try {
+          await validateFile(filePath, description);
+        } catch (e) {
+          await unlink(filePath);
+          throw e;
         }
+        return filePath;
       }
+      // there's always at least one URL, and the last one's 404 is thrown
+      throw new Error(`No URLs to download ${description} from.`);
+    });
 
-      await saveEntireManual(
-        newPath,
-        docID,
-        fetchPageParams,
-        browserPage,
-        options
-      );
+    await recordFile(outputPaths, group, recordedFile.key, filePath);
+    await markComplete(manifest, key, [filePath]);
+  } catch (e) {
+    console.error(`Error saving file ${name} (${docID}): ${e}`);
+    await markFailed(manifest, key, e);
+    // like external PDFs, a missing file doesn't stop the download, it's
+    // listed with the other failures at the end
+    if (shouldAbort(e)) {
+      throw e;
     }
   }
 }
@@ -0,0 +1,197 @@
+import { writeFile } from "fs/promises";
+import { join, relative, sep } from "path";
+import {
+  getDocumentExtension,
+  getDocumentKind,
+  workshopPathKey,
+} from "./documentPaths";
+import type { SaveOptions } from "./saveEntireManual";
+
+export const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Relative URL for a file in the output folder. Every segment is encoded
+// because TOC names contain characters like # and ? that break URLs.
+export const toHref = (segments: string[]): string =>
+  segments.map((s) => encodeURIComponent(s)).join("/");
+
+function renderTree(
+  toc: any,
+  breadcrumbs: string[],
+  outputPath: string,
+  documentPaths: Map<string, string>,
+  savedFiles: Map<string, string>,
+  options: SaveOptions
+): string {
+  const items = Object.entries(toc).map(([name, docID]) => {
+    const crumbs = [...breadcrumbs, name];
+
+    if (typeof docID !== "string" || docID.length === 0) {
+      return (
+        `<li><details><summary>${escapeHTML(name)}</summary>` +
+        renderTree(
+          docID,
+          crumbs,
+          outputPath,
+          documentPaths,
+          savedFiles,
+          options
+        ) +
+        "</details></li>"
+      );
+    }
+
+    const crumbAttr = escapeHTML(JSON.stringify(crumbs));
+    const kind = getDocumentKind(docID);
+    // same path saveEntireManual saves to, without an extension
+    const segments = relative(
+      outputPath,
+      documentPaths.get(workshopPathKey(crumbs))!
+    ).split(sep);
+    const fileHref = (extension: string) =>
+      toHref([
+        ...segments.slice(0, -1),
+        segments[segments.length - 1] + extension,
+      ]);
+
+    // Relative-path files only have a known extension if their URL has
+    // one, otherwise it depends on what the server sent back
+    const savedFile = savedFiles.get(workshopPathKey(crumbs));
+    if (!getDocumentExtension(docID) && savedFile) {
+      return `<li><a href="${toHref(
+        relative(outputPath, savedFile).split(sep)
+      )}" target="viewer" data-crumbs="${crumbAttr}">${escapeHTML(
+        name
+      )}</a></li>`;
+    }
+    const extension = getDocumentExtension(docID);
+    if (!extension) {
+      return `<li class="missing" title="Saved in this folder, with an extension that depends on the file: ${escapeHTML(
+        docID
+      )}">${escapeHTML(name)}</li>`;
+    }
+
+    if (kind !== "page") {
+      return `<li><a href="${fileHref(
+        extension
+      )}" target="viewer" data-crumbs="${crumbAttr}">${escapeHTML(
+        name
+      )}</a></li>`;
+    }
+
+    const htmlLink = options.saveHTML
+      ? ` <a class="alt" href="${fileHref(
+          ".html"
+        )}" target="viewer" data-crumbs="${crumbAttr}">HTML</a>`
+      : "";
+
+    return `<li><a href="${fileHref(
+      ".pdf"
+    )}" target="viewer" data-crumbs="${crumbAttr}" data-docid="${escapeHTML(
+      docID
+    )}">${escapeHTML(name)}</a>${htmlLink}</li>`;
+  });
+
+  return `<ul>${items.join("")}</ul>`;
+}
+
+const STYLE = `
+body { margin: 0; display: flex; height: 100vh; font-family: sans-serif; font-size: 14px; }
+nav { width: 30%; min-width: 250px; overflow: auto; border-right: 1px solid #ccc; padding: 8px; box-sizing: border-box; }
+main { flex: 1; display: flex; flex-direction: column; }
+#breadcrumbs { padding: 8px; border-bottom: 1px solid #ccc; min-height: 1em; }
+iframe { flex: 1; border: none; }
+ul { list-style: none; padding-left: 16px; margin: 0; }
+summary { cursor: pointer; }
+a { text-decoration: none; }
+a.active { font-weight: bold; }
+a.alt { font-size: 11px; color: #666; }
+li.missing { color: #999; }
+`;
+
+// Opens links in the viewer, shows where the document is in the tree,
+// and remembers the open document in the URL hash so it can be bookmarked.
+const SCRIPT = `
+const links = Array.from(document.querySelectorAll("nav a"));
+const breadcrumbs = document.getElementById("breadcrumbs");
+function show(link) {
+  links.forEach((l) => l.classList.remove("active"));
+  link.classList.add("active");
+  breadcrumbs.textContent = JSON.parse(link.dataset.crumbs).join(" \\u203a ");
+  for (let el = link.parentElement; el; el = el.parentElement) {
+    if (el.tagName === "DETAILS") el.open = true;
+  }
+  link.scrollIntoView({ block: "nearest" });
+}
+links.forEach((link) => link.addEventListener("click", () => {
+  show(link);
+  history.replaceState(null, "", "#" + link.getAttribute("href"));
+}));
+const initial = links.find((l) => "#" + l.getAttribute("href") === location.hash);
+if (initial) {
+  show(initial);
+  document.querySelector("iframe").src = initial.getAttribute("href");
+}
+`;
+
+/**
+ * Writes an index.html with `nav` on the left and a viewer on the right,
+ * which starts out showing `start`. Links in `nav` should target "viewer"
+ * and have a data-crumbs attribute for the breadcrumb bar.
+ */
+export async function writeIndexPage(
+  outputPath: string,
+  title: string,
+  nav: string,
+  start: string
+): Promise<void> {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<nav>
+<h3>${escapeHTML(title)}</h3>
+${nav}
+</nav>
+<main>
+<div id="breadcrumbs"></div>
+<iframe name="viewer" src="${escapeHTML(start)}"></iframe>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+
+  await writeFile(join(outputPath, "index.html"), html);
+}
+
+/**
+ * Writes index.html, which lets you browse the downloaded manual offline
+ * (no server needed) with the same tree as PTS. `savedFiles` are the files
+ * relative-path documents were saved as, by workshopPathKey, for those
+ * whose extension depends on what was downloaded.
+ */
+export default async function saveIndexPage(
+  outputPath: string,
+  toc: any,
+  title: string,
+  options: SaveOptions,
+  documentPaths: Map<string, string>,
+  savedFiles: Map<string, string> = new Map()
+): Promise<void> {
+  await writeIndexPage(
+    outputPath,
+    title,
+    '<p><a href="cover.html" target="viewer" data-crumbs="[&quot;Cover&quot;]">Cover</a></p>\n' +
+      renderTree(toc, [], outputPath, documentPaths, savedFiles, options),
+    "cover.html"
+  );
+}